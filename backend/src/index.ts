@@ -9,6 +9,18 @@ import customerRoutes from './routes/customers';
 import rentalRoutes from './routes/rentals';
 import paymentRoutes from './routes/payments';
 import userRoutes from './routes/users';
+import auditRoutes from './routes/audit';
+import pricingPlanRoutes from './routes/pricingPlans';
+import maintenanceRoutes from './routes/maintenance';
+import branchRoutes from './routes/branches';
+import transferRoutes from './routes/transfers';
+import { requireAuth } from './middleware/auth';
+import { requirePermission } from './middleware/permissions';
+import { branchWhere } from './middleware/branches';
+import { handleInvalidJson, validate, ValidatedRequest } from './middleware/validate';
+import { branchQuery } from './schemas/common';
+import { getRentalBalance, openBalanceWhere } from './services/rentalBalance';
+import { inServiceWhere } from './services/batteryLifecycle';
 
 // Load environment variables
 dotenv.config();
@@ -18,6 +30,8 @@ const app = express();
 const PORT = process.env.PORT || 5000;
 const prisma = new PrismaClient();
 
+const dashboardSummary = { query: branchQuery };
+
 // Middleware
 app.use(cors());
 app.use(express.json());
@@ -28,22 +42,31 @@ app.use('/api/customers', customerRoutes);
 app.use('/api/rentals', rentalRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/users', userRoutes);
+app.use('/api/pricing-plans', pricingPlanRoutes);
+app.use('/api/maintenance', maintenanceRoutes);
+app.use('/api/branches', branchRoutes);
+app.use('/api/transfers', transferRoutes);
+app.use('/api/audit', auditRoutes);
 
 // Basic route
 app.get('/', (req, res) => {
   res.json({ message: 'Welcome to Battery Manager API' });
 });
 
-// Dashboard summary route
-app.get('/api/dashboard/summary', async (req, res) => {
+// Dashboard summary route (for the user's branch, or ?branchId= for users who see every branch)
+app.get('/api/dashboard/summary', requireAuth, requirePermission('report:view'), validate(dashboardSummary), async (req: ValidatedRequest<typeof dashboardSummary>, res) => {
   try {
-    // Get inventory stats
-    const totalBatteries = await prisma.battery.count();
+    const branch = branchWhere(req);
+
+    // Get inventory stats, leaving out archived batteries
+    const totalBatteries = await prisma.battery.count({
+      where: { ...inServiceWhere, ...branch, archivedAt: null }
+    });
     const availableBatteries = await prisma.battery.count({
-      where: { status: 'AVAILABLE' }
+      where: { status: 'AVAILABLE', ...branch, archivedAt: null }
     });
     const rentedBatteries = await prisma.battery.count({
-      where: { status: 'RENTED' }
+      where: { status: 'RENTED', ...branch, archivedAt: null }
     });
 
     // Get today's date
@@ -60,32 +83,32 @@ app.get('/api/dashboard/summary', async (req, res) => {
         paymentDate: {
           gte: today,
           lte: endOfDay
-        }
+        },
+        ...branch
       }
     });
     const earnedToday = todayPayments.reduce((sum, payment) => sum + Number(payment.amount), 0);
 
-    // Get total due across customers
-    const unpaidRentals = await prisma.rental.findMany({
-      where: {
-        isPaid: false
-      },
+    // Get total due across customers, including accrued late fees
+    const openRentals = await prisma.rental.findMany({
+      where: { ...openBalanceWhere, ...branch },
       include: {
         payments: true
       }
     });
 
-    let totalDue = 0;
-    unpaidRentals.forEach(rental => {
-      const paidAmount = rental.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-      totalDue += Number(rental.rentalPrice) - paidAmount;
-    });
+    const totalDue = openRentals.reduce((sum, rental) => sum + getRentalBalance(rental).remainingBalance, 0);
 
-    // Get top 5 customers by rental count
+    // Get top 5 customers by rental count (counting and ranking only customers who rented from the branch,
+    // and leaving out archived customers)
     const customers = await prisma.customer.findMany({
+      where: {
+        archivedAt: null,
+        ...(branch.branchId && { rentals: { some: branch } })
+      },
       include: {
         _count: {
-          select: { rentals: true }
+          select: { rentals: { where: branch } }
         }
       }
     });
@@ -133,6 +156,9 @@ app.get('/api/dashboard/summary', async (req, res) => {
   }
 });
 
+// Bodies that are not valid JSON get the same 400 shape as bodies that fail their schema
+app.use(handleInvalidJson);
+
 // Start server
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
@@ -1,27 +1,138 @@
-// This file sets up Clerk authentication middleware for the backend
+// This file sets up JWT authentication middleware for the backend
+import fs from 'fs';
 import { Request, Response, NextFunction } from 'express';
+import { UnvalidatedRequest } from './validate';
+import { needsBranch } from './branches';
+import { PrismaClient, Role } from '@prisma/client';
+import { createRemoteJWKSet, importSPKI, jwtVerify, JWTPayload, JWTVerifyGetKey, KeyLike } from 'jose';
 
-// This is a placeholder for actual Clerk middleware
-// In a real implementation, you would use Clerk's SDK to verify tokens
-export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
-  // For development purposes, we're allowing all requests through
-  // In production, this would verify the authentication token from the request headers
-  
-  // Mock user data for development
-  req.user = {
-    id: 'mock-user-id',
-    role: 'admin'
-  };
-  
-  next();
+const prisma = new PrismaClient();
+
+// Verification key, resolved once from the environment on first use.
+// Precedence: remote JWKS (e.g. Clerk), then a local PEM public key file, then a shared HMAC secret.
+let verificationKey: Promise<KeyLike | Uint8Array | JWTVerifyGetKey> | null = null;
+
+const getVerificationKey = () => {
+  if (!verificationKey) {
+    verificationKey = loadVerificationKey();
+    // Allow a retry on the next request if the key could not be loaded
+    verificationKey.catch(() => {
+      verificationKey = null;
+    });
+  }
+  return verificationKey;
 };
 
-// Middleware to check if user has admin role
-export const requireAdmin = (req: Request, res: Response, next: NextFunction) => {
-  if (req.user && req.user.role === 'admin') {
+async function loadVerificationKey(): Promise<KeyLike | Uint8Array | JWTVerifyGetKey> {
+  const { AUTH_JWKS_URL, AUTH_PUBLIC_KEY_FILE, AUTH_JWT_SECRET, AUTH_JWT_ALGORITHM } = process.env;
+
+  if (AUTH_JWKS_URL) {
+    return createRemoteJWKSet(new URL(AUTH_JWKS_URL));
+  }
+
+  if (AUTH_PUBLIC_KEY_FILE) {
+    const pem = await fs.promises.readFile(AUTH_PUBLIC_KEY_FILE, 'utf8');
+    return importSPKI(pem, AUTH_JWT_ALGORITHM || 'RS256');
+  }
+
+  if (AUTH_JWT_SECRET) {
+    return new TextEncoder().encode(AUTH_JWT_SECRET);
+  }
+
+  throw new Error('No JWT verification key configured. Set AUTH_JWKS_URL, AUTH_PUBLIC_KEY_FILE or AUTH_JWT_SECRET.');
+}
+
+// Verify the token signature, expiry and (if configured) issuer and audience
+async function verifyToken(token: string): Promise<JWTPayload> {
+  const key = await getVerificationKey();
+  const options = {
+    ...(process.env.AUTH_JWT_ISSUER && { issuer: process.env.AUTH_JWT_ISSUER }),
+    ...(process.env.AUTH_JWT_AUDIENCE && { audience: process.env.AUTH_JWT_AUDIENCE })
+  };
+
+  // jwtVerify is overloaded on the key type, so call each form explicitly
+  const { payload } = typeof key === 'function'
+    ? await jwtVerify(token, key, options)
+    : await jwtVerify(token, key, options);
+
+  return payload;
+}
+
+// Middleware to verify the bearer token and load the matching user from the database
+export const requireAuth = async (req: UnvalidatedRequest, res: Response, next: NextFunction) => {
+  const header = req.headers.authorization;
+
+  if (!header || !header.startsWith('Bearer ')) {
+    return res.status(401).json({ error: 'Authentication token is required' });
+  }
+
+  let payload: JWTPayload;
+  try {
+    payload = await verifyToken(header.slice('Bearer '.length).trim());
+  } catch (error) {
+    console.error('Error verifying authentication token:', error);
+    return res.status(401).json({ error: 'Invalid or expired authentication token' });
+  }
+
+  try {
+    const email = typeof payload.email === 'string' ? payload.email : undefined;
+
+    if (!payload.sub && !email) {
+      return res.status(401).json({ error: 'Authentication token has no subject or email' });
+    }
+
+    // Resolve the user by token subject first
+    let user = payload.sub
+      ? await prisma.user.findUnique({ where: { externalId: payload.sub } })
+      : null;
+
+    // Otherwise fall back to the email claim, but only for a verified email and an account not yet linked
+    // to a subject: a token with another subject must not sign in as an already linked user
+    if (!user && email) {
+      if (payload.email_verified !== true) {
+        return res.status(401).json({ error: 'Authentication token email is not verified' });
+      }
+
+      user = await prisma.user.findUnique({ where: { email } });
+
+      if (user?.externalId) {
+        return res.status(401).json({ error: 'This user account is linked to a different sign-in' });
+      }
+    }
+
+    if (!user) {
+      return res.status(401).json({ error: 'No user account is linked to this token' });
+    }
+
+    if (user.archivedAt) {
+      return res.status(403).json({ error: 'This user account has been archived' });
+    }
+
+    // Branch-bound roles without a branch would otherwise see no branch or every branch
+    if (needsBranch(user.role) && !user.branchId) {
+      return res.status(403).json({ error: 'This user account is not assigned to a branch' });
+    }
+
+    // Link the token subject to the user on first sign-in by email
+    if (payload.sub && !user.externalId) {
+      await prisma.user.update({
+        where: { id: user.id },
+        data: { externalId: payload.sub }
+      });
+    }
+
+    req.user = {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      branchId: user.branchId
+    };
+
     next();
-  } else {
-    res.status(403).json({ error: 'Unauthorized: Admin access required' });
+  } catch (error) {
+    console.error('Error resolving authenticated user:', error);
+    res.status(500).json({ error: 'Failed to authenticate user' });
   }
 };
 
@@ -31,7 +142,10 @@ declare global {
     interface Request {
       user?: {
         id: string;
-        role: string;
+        email: string;
+        name: string;
+        role: Role;
+        branchId: string | null;
       };
     }
   }
@@ -0,0 +1,32 @@
+// This file limits what a user sees to their branch
+import { Request } from 'express';
+import { Role } from '@prisma/client';
+import { hasPermission, ROLE_PERMISSIONS } from './permissions';
+
+// Only the user and ?branchId= are read, so validated requests (see validate) can be passed in as they are
+type BranchRequest = Pick<Request, 'user'> & { query: { branchId?: unknown } };
+
+// Branch a request is limited to, or undefined for every branch. Users with branch:all may narrow
+// results with ?branchId=; everyone else is held to their own branch. requireAuth turns away users
+// without branch:all who have no branch, so only branch:all leaves a request unscoped.
+export const getBranchScope = (req: BranchRequest): string | undefined => {
+  if (hasPermission(req.user, 'branch:all')) {
+    return (req.query.branchId as string) || undefined;
+  }
+  return req.user?.branchId ?? undefined;
+};
+
+// Whether a user must be assigned to a branch to work: everyone who cannot see every branch
+export const needsBranch = (role: Role) => !ROLE_PERMISSIONS[role].has('branch:all');
+
+// Prisma filter for models with a branchId column
+export const branchWhere = (req: BranchRequest) => {
+  const branchId = getBranchScope(req);
+  return branchId ? { branchId } : {};
+};
+
+// Whether the user may see a record belonging to branchId
+export const canAccessBranch = (req: Pick<Request, 'user'>, branchId: string | null) => {
+  if (hasPermission(req.user, 'branch:all')) return true;
+  return !!req.user?.branchId && branchId === req.user.branchId;
+};
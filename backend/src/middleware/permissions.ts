@@ -0,0 +1,100 @@
+// This file defines the named permissions and the role-to-permission mapping
+import { Request, Response, NextFunction } from 'express';
+import { Role } from '@prisma/client';
+import { UnvalidatedRequest } from './validate';
+
+export const PERMISSIONS = [
+  // Inventory
+  'battery:view',
+  'battery:create',
+  'battery:edit',
+  'battery:delete',
+  'battery:dispose',
+  'battery:transfer',
+  'maintenance:manage',
+  // Customers
+  'customer:view',
+  'customer:create',
+  'customer:edit',
+  'customer:edit-credit',
+  'customer:delete',
+  'customer:merge',
+  'customer:blacklist',
+  // Rentals
+  'rental:view',
+  'rental:create',
+  'rental:return',
+  'rental:mark-paid',
+  'rental:override-price',
+  'rental:override-eligibility',
+  'pricing:manage',
+  // Payments and financial reports
+  'payment:view',
+  'payment:create',
+  'payment:refund',
+  'report:view',
+  // Administration
+  'user:manage',
+  'branch:manage',
+  // See and filter every branch instead of only the user's own
+  'branch:all',
+  'audit:view'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// Day-to-day counter work: record rentals, returns and payments
+const STAFF_PERMISSIONS: Permission[] = [
+  'battery:view',
+  'battery:create',
+  'battery:edit',
+  'battery:transfer',
+  'maintenance:manage',
+  'customer:view',
+  'customer:create',
+  'customer:edit',
+  'rental:view',
+  'rental:create',
+  'rental:return',
+  'payment:view',
+  'payment:create'
+];
+
+// Staff plus cash handling: reports, refunds, price and eligibility overrides and manual payment status changes
+const CASHIER_PERMISSIONS: Permission[] = [
+  ...STAFF_PERMISSIONS,
+  'rental:mark-paid',
+  'rental:override-price',
+  'rental:override-eligibility',
+  'payment:refund',
+  'report:view'
+];
+
+export const ROLE_PERMISSIONS: Record<Role, ReadonlySet<Permission>> = {
+  ADMIN: new Set(PERMISSIONS),
+  CASHIER: new Set(CASHIER_PERMISSIONS),
+  STAFF: new Set(STAFF_PERMISSIONS)
+};
+
+// Check whether the authenticated user holds a permission
+export const hasPermission = (user: Request['user'], permission: Permission) => {
+  return !!user && ROLE_PERMISSIONS[user.role].has(permission);
+};
+
+// List the permissions granted to a role
+export const getPermissions = (role: Role): Permission[] => {
+  return PERMISSIONS.filter(permission => ROLE_PERMISSIONS[role].has(permission));
+};
+
+// Middleware to check that the user holds every listed permission. Must run after requireAuth.
+export const requirePermission = (...permissions: Permission[]) => {
+  return (req: UnvalidatedRequest, res: Response, next: NextFunction) => {
+    const missing = permissions.filter(permission => !hasPermission(req.user, permission));
+
+    if (missing.length === 0) {
+      next();
+    } else {
+      res.status(403).json({ error: `Unauthorized: missing permission ${missing.join(', ')}` });
+    }
+  };
+};
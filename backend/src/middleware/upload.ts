@@ -0,0 +1,33 @@
+// This file accepts a single uploaded CSV or Excel file in the "file" field of a multipart form
+import { Response, NextFunction } from 'express';
+import path from 'path';
+import multer from 'multer';
+import { UnvalidatedRequest } from './validate';
+
+const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx', '.xls'];
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, callback) => {
+    if (SPREADSHEET_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+      callback(null, true);
+    } else {
+      callback(new Error(`File must be one of ${SPREADSHEET_EXTENSIONS.join(', ')}`));
+    }
+  }
+}).single('file');
+
+// Middleware that stores the upload in req.file; responds 400 for a missing, oversized or wrong-type file
+export const uploadSpreadsheet = (req: UnvalidatedRequest, res: Response, next: NextFunction) => {
+  // multer is typed for a plain express request; res.req is the same request object under that type
+  upload(res.req, res, (error: unknown) => {
+    if (error) {
+      return res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid upload' });
+    }
+    if (!req.file) {
+      return res.status(400).json({ error: 'A CSV or Excel file is required in the "file" field' });
+    }
+    next();
+  });
+};
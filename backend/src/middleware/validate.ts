@@ -0,0 +1,85 @@
+// This file checks path parameters, query strings and bodies against the request schemas before a handler runs
+import { Request, Response, NextFunction } from 'express';
+import { z, ZodTypeAny } from 'zod';
+
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+// Request as seen by middleware that runs before validate: params, query and body are not known yet, which
+// also lets the middleware share a route with a handler that declares its validated types (see ValidatedRequest)
+export type UnvalidatedRequest = Request<unknown, unknown, unknown, unknown>;
+
+type Location = keyof RequestSchemas;
+
+const LOCATIONS: Location[] = ['params', 'query', 'body'];
+
+type Parsed<S extends ZodTypeAny | undefined, Fallback> = S extends ZodTypeAny ? z.infer<S> : Fallback;
+
+// A request that has passed validate(schemas): its params, query and body have the parsed types
+export type ValidatedRequest<S extends RequestSchemas> = Request<
+  Parsed<S['params'], Request['params']>,
+  unknown,
+  Parsed<S['body'], unknown>,
+  Parsed<S['query'], Request['query']>
+>;
+
+export interface FieldError {
+  location: Location;
+  // Dotted path to the field, e.g. "payments.0.amount"; empty for the whole params, query or body
+  field: string;
+  message: string;
+}
+
+// Response body for invalid input: a one-line summary in error, as every other 400 has, plus each failing field
+export const validationError = (details: FieldError[]) => ({
+  error: `Invalid request: ${details.map(({ field, message }) => (field ? `${field}: ${message}` : message)).join('; ')}`,
+  details
+});
+
+// express.json() reports a malformed body as a SyntaxError of type 'entity.parse.failed'
+const isJsonParseError = (error: unknown): error is SyntaxError & { type: string } =>
+  error instanceof SyntaxError && 'type' in error && error.type === 'entity.parse.failed';
+
+// Error middleware that answers a malformed JSON body like a body that fails its schema
+export const handleInvalidJson = (error: unknown, req: Request, res: Response, next: NextFunction) => {
+  if (isJsonParseError(error)) {
+    return res.status(400).json(validationError([{ location: 'body', field: '', message: 'Body is not valid JSON' }]));
+  }
+  next(error);
+};
+
+// Middleware that parses the request against the given schemas. On success req.params, req.query and req.body
+// are replaced by the parsed values (converted, defaulted and without undeclared fields); otherwise it responds
+// 400 listing every failing field.
+export const validate = (schemas: RequestSchemas) => {
+  return (req: UnvalidatedRequest, res: Response, next: NextFunction) => {
+    const details: FieldError[] = [];
+    const parsed: Partial<Record<Location, unknown>> = {};
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        parsed[location] = result.data;
+      } else {
+        details.push(...result.error.issues.map(issue => ({
+          location,
+          field: issue.path.join('.'),
+          message: issue.message
+        })));
+      }
+    }
+
+    if (details.length > 0) {
+      return res.status(400).json(validationError(details));
+    }
+
+    Object.assign(req, parsed);
+    next();
+  };
+};
@@ -0,0 +1,47 @@
+import express from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { toDateRange, toListOptions, toPage } from '../services/listQuery';
+import { listAuditLog } from '../schemas/audit';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Get a page of audit log entries, newest first, optionally filtered
+router.get('/', requireAuth, requirePermission('audit:view'), validate(listAuditLog), async (req: ValidatedRequest<typeof listAuditLog>, res) => {
+  try {
+    const { actorId, action, entityType, entityId } = req.query;
+    const list = toListOptions(req.query);
+    const range = toDateRange(req.query);
+
+    const where: Prisma.AuditLogWhereInput = {
+      ...(actorId && { actorId }),
+      ...(action && { action }),
+      ...(entityType && { entityType }),
+      ...(entityId && { entityId }),
+      ...(range && { createdAt: range })
+    };
+
+    const total = await prisma.auditLog.count({ where });
+    const entries = await prisma.auditLog.findMany({
+      where,
+      include: {
+        actor: {
+          select: { id: true, name: true, email: true, role: true }
+        }
+      },
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+
+    res.json(toPage(entries, total, list));
+  } catch (error) {
+    console.error('Error fetching audit log:', error);
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+});
+
+export default router;
@@ -0,0 +1,203 @@
+import express from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { toListOptions, toPage } from '../services/listQuery';
+import { byId } from '../schemas/common';
+import { createBranch, listBranches, updateBranch } from '../schemas/branches';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Get a page of branches (active only unless ?includeInactive=true)
+router.get('/', requireAuth, validate(listBranches), async (req: ValidatedRequest<typeof listBranches>, res) => {
+  try {
+    const list = toListOptions(req.query);
+    const where: Prisma.BranchWhereInput = req.query.includeInactive ? {} : { isActive: true };
+
+    const total = await prisma.branch.count({ where });
+    const branches = await prisma.branch.findMany({
+      where,
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+    res.json(toPage(branches, total, list));
+  } catch (error) {
+    console.error('Error fetching branches:', error);
+    res.status(500).json({ error: 'Failed to fetch branches' });
+  }
+});
+
+// Get a single branch by ID, with its stock counts
+router.get('/:id', requireAuth, validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+    const branch = await prisma.branch.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { batteries: true, users: true }
+        }
+      }
+    });
+
+    if (!branch) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+
+    res.json(branch);
+  } catch (error) {
+    console.error('Error fetching branch:', error);
+    res.status(500).json({ error: 'Failed to fetch branch' });
+  }
+});
+
+// Add a new branch
+router.post('/', requireAuth, requirePermission('branch:manage'), validate(createBranch), async (req: ValidatedRequest<typeof createBranch>, res) => {
+  try {
+    const { name, address, phoneNumber } = req.body;
+
+    // Check if a branch with this name already exists
+    const existingBranch = await prisma.branch.findUnique({
+      where: { name }
+    });
+
+    if (existingBranch) {
+      return res.status(400).json({ error: 'Branch with this name already exists' });
+    }
+
+    const newBranch = await prisma.$transaction(async (prisma) => {
+      const branch = await prisma.branch.create({
+        data: {
+          name,
+          address,
+          phoneNumber
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'Branch',
+        entityId: branch.id,
+        after: branch
+      });
+
+      return branch;
+    });
+
+    res.status(201).json(newBranch);
+  } catch (error) {
+    console.error('Error creating branch:', error);
+    res.status(500).json({ error: 'Failed to create branch' });
+  }
+});
+
+// Update a branch
+router.put('/:id', requireAuth, requirePermission('branch:manage'), validate(updateBranch), async (req: ValidatedRequest<typeof updateBranch>, res) => {
+  try {
+    const { id } = req.params;
+    const { name, address, phoneNumber, isActive } = req.body;
+
+    // Check if branch exists
+    const existingBranch = await prisma.branch.findUnique({
+      where: { id }
+    });
+
+    if (!existingBranch) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+
+    // If name is being changed, check if it's unique
+    if (name && name !== existingBranch.name) {
+      const duplicateName = await prisma.branch.findUnique({
+        where: { name }
+      });
+
+      if (duplicateName) {
+        return res.status(400).json({ error: 'Branch with this name already exists' });
+      }
+    }
+
+    const updatedBranch = await prisma.$transaction(async (prisma) => {
+      const branch = await prisma.branch.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...(address !== undefined && { address }),
+          ...(phoneNumber !== undefined && { phoneNumber }),
+          ...(isActive !== undefined && { isActive })
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Branch',
+        entityId: id,
+        before: existingBranch,
+        after: branch
+      });
+
+      return branch;
+    });
+
+    res.json(updatedBranch);
+  } catch (error) {
+    console.error('Error updating branch:', error);
+    res.status(500).json({ error: 'Failed to update branch' });
+  }
+});
+
+// Delete a branch that nothing refers to yet
+router.delete('/:id', requireAuth, requirePermission('branch:manage'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    // Check if branch exists
+    const existingBranch = await prisma.branch.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { users: true, batteries: true, rentals: true, payments: true, transfersOut: true, transfersIn: true }
+        }
+      }
+    });
+
+    if (!existingBranch) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+
+    if (Object.values(existingBranch._count).some(count => count > 0)) {
+      return res.status(400).json({
+        error: 'Cannot delete a branch with users, batteries or history. Deactivate it instead.'
+      });
+    }
+
+    await prisma.$transaction(async (prisma) => {
+      const { _count, ...branch } = existingBranch;
+
+      await prisma.branch.delete({
+        where: { id }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'DELETE',
+        entityType: 'Branch',
+        entityId: id,
+        before: branch
+      });
+    });
+
+    res.json({ message: 'Branch deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting branch:', error);
+    res.status(500).json({ error: 'Failed to delete branch' });
+  }
+});
+
+export default router;
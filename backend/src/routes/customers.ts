@@ -1,33 +1,105 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
-import { requireAuth, requireAdmin } from '../middleware/auth';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { hasPermission, requirePermission } from '../middleware/permissions';
+import { branchWhere, canAccessBranch } from '../middleware/branches';
+import { uploadSpreadsheet } from '../middleware/upload';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { IMPORT_MAX_ROWS, readSpreadsheet, rejectDuplicates, validateCustomerRows } from '../services/import';
+import { sendExport } from '../services/export';
+import { archivedWhere, toDateRange, toListOptions, toPage } from '../services/listQuery';
+import { normalizePhoneNumber, toPhoneDigits } from '../services/phone';
+import {
+  getCreditScore,
+  isCreditRatingPinned,
+  recalculateAllCreditRatings,
+  recalculateCreditRating,
+  setCreditRating
+} from '../services/creditRating';
+import { checkRentalEligibility } from '../services/eligibility';
+import { searchCustomers } from '../services/customerSearch';
+import { getRentalBalance, openBalanceWhere } from '../services/rentalBalance';
+import { applyWalletCredit, getWalletBalance, lockWallet, recordWalletTransaction } from '../services/wallet';
+import { byId } from '../schemas/common';
+import {
+  applyWalletToRental,
+  blacklistCustomer,
+  createCustomer,
+  creditRatingHistory,
+  customerNotifications,
+  customersWithDues,
+  exportCustomersWithDues,
+  fuzzySearchCustomers,
+  importCustomers,
+  listCustomers,
+  mergeCustomers,
+  normalizePhoneNumbers,
+  topCustomers,
+  updateCustomer,
+  walletMovement
+} from '../schemas/customers';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Get all customers
-router.get('/', requireAuth, async (req, res) => {
+// Get a page of customers, by name. Filters: a credit rating range (?minCreditRating=, ?maxCreditRating=),
+// ?isBlacklisted= and a sign-up date range (?startDate=, ?endDate=). Archived customers are left out
+// unless ?includeArchived=true.
+router.get('/', requireAuth, requirePermission('customer:view'), validate(listCustomers), async (req: ValidatedRequest<typeof listCustomers>, res) => {
   try {
+    const { minCreditRating, maxCreditRating, isBlacklisted, includeArchived } = req.query;
+    const list = toListOptions(req.query);
+    const range = toDateRange(req.query);
+
+    const where: Prisma.CustomerWhereInput = {
+      ...((minCreditRating !== undefined || maxCreditRating !== undefined) && {
+        creditRating: { gte: minCreditRating, lte: maxCreditRating }
+      }),
+      ...(isBlacklisted !== undefined && { isBlacklisted }),
+      ...(range && { createdAt: range }),
+      ...archivedWhere(includeArchived)
+    };
+
+    const total = await prisma.customer.count({ where });
     const customers = await prisma.customer.findMany({
-      orderBy: {
-        name: 'asc'
-      }
+      where,
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
     });
-    res.json(customers);
+
+    res.json(toPage(customers, total, list));
   } catch (error) {
     console.error('Error fetching customers:', error);
     res.status(500).json({ error: 'Failed to fetch customers' });
   }
 });
 
+// Search customers by partial or misspelled name, phone digits or address, best match first
+// (?q=, ?page=, ?pageSize=). Registered before /:id so "search" is not read as an ID.
+router.get('/search', requireAuth, requirePermission('customer:view'), validate(fuzzySearchCustomers), async (req: ValidatedRequest<typeof fuzzySearchCustomers>, res) => {
+  try {
+    const { q, page, pageSize } = req.query;
+    const { customers, total } = await searchCustomers(prisma, q, { skip: (page - 1) * pageSize, take: pageSize });
+    res.json(toPage(customers, total, { page, pageSize }));
+  } catch (error) {
+    console.error('Error searching customers:', error);
+    res.status(500).json({ error: 'Failed to search customers' });
+  }
+});
+
 // Get a single customer by ID
-router.get('/:id', requireAuth, async (req, res) => {
+router.get('/:id', requireAuth, requirePermission('customer:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
   try {
     const { id } = req.params;
+    // Staff only see the rentals and payments of their own branch
+    const branch = branchWhere(req);
     const customer = await prisma.customer.findUnique({
       where: { id },
       include: {
         rentals: {
+          where: branch,
           include: {
             battery: true,
             payments: true
@@ -37,6 +109,7 @@ router.get('/:id', requireAuth, async (req, res) => {
           }
         },
         payments: {
+          where: branch,
           orderBy: {
             paymentDate: 'desc'
           }
@@ -48,21 +121,14 @@ router.get('/:id', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Customer not found' });
     }
 
-    // Calculate due balance
-    let dueBalance = 0;
-    customer.rentals.forEach(rental => {
-      if (!rental.isPaid) {
-        dueBalance += Number(rental.rentalPrice);
-        // Subtract any partial payments
-        const paidAmount = rental.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-        dueBalance -= paidAmount;
-      }
-    });
+    // Calculate due balance, net of partial payments and including late fees
+    const dueBalance = customer.rentals.reduce((sum, rental) => sum + getRentalBalance(rental).remainingBalance, 0);
 
     // Add customer profile data
     const customerProfile = {
       ...customer,
-      dueBalance
+      dueBalance,
+      availableCredit: await getWalletBalance(prisma, id)
     };
 
     res.json(customerProfile);
@@ -72,32 +138,395 @@ router.get('/:id', requireAuth, async (req, res) => {
   }
 });
 
-// Add a new customer
-router.post('/', requireAuth, async (req, res) => {
+// Get a page of the notifications sent to a customer, newest first
+router.get('/:id/notifications', requireAuth, requirePermission('customer:view'), validate(customerNotifications), async (req: ValidatedRequest<typeof customerNotifications>, res) => {
   try {
-    const { name, phoneNumber, address } = req.body;
+    const { id } = req.params;
+    const list = toListOptions(req.query);
+
+    const customer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const where = { customerId: id };
+    const total = await prisma.notification.count({ where });
+    const notifications = await prisma.notification.findMany({
+      where,
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+
+    res.json(toPage(notifications, total, list));
+  } catch (error) {
+    console.error('Error fetching customer notifications:', error);
+    res.status(500).json({ error: 'Failed to fetch customer notifications' });
+  }
+});
+
+// Get a customer's wallet balance and ledger, newest first
+router.get('/:id/wallet', requireAuth, requirePermission('customer:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const customer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const transactions = await prisma.walletTransaction.findMany({
+      where: { customerId: id },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    });
+
+    res.json({
+      balance: transactions.reduce((sum, transaction) => sum + Number(transaction.amount), 0),
+      transactions
+    });
+  } catch (error) {
+    console.error('Error fetching customer wallet:', error);
+    res.status(500).json({ error: 'Failed to fetch customer wallet' });
+  }
+});
+
+// Add advance credit to a customer's wallet
+router.post('/:id/wallet/top-up', requireAuth, requirePermission('payment:create'), validate(walletMovement), async (req: ValidatedRequest<typeof walletMovement>, res) => {
+  try {
+    const { id } = req.params;
+    const { amount, paymentMethod, note } = req.body;
+
+    const customer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const transaction = await prisma.$transaction(async (prisma) => {
+      return recordWalletTransaction(prisma, {
+        customerId: id,
+        type: 'TOP_UP',
+        amount,
+        paymentMethod,
+        note,
+        branchId: req.user?.branchId,
+        actor: req.user
+      });
+    });
+
+    res.status(201).json({
+      transaction,
+      balance: await getWalletBalance(prisma, id)
+    });
+  } catch (error) {
+    console.error('Error topping up customer wallet:', error);
+    res.status(500).json({ error: 'Failed to top up customer wallet' });
+  }
+});
+
+// Pay a rental from the customer's wallet credit
+router.post('/:id/wallet/apply', requireAuth, requirePermission('payment:create'), validate(applyWalletToRental), async (req: ValidatedRequest<typeof applyWalletToRental>, res) => {
+  try {
+    const { id } = req.params;
+    const { rentalId, amount } = req.body;
+
+    const rental = await prisma.rental.findUnique({
+      where: { id: rentalId }
+    });
+
+    if (!rental || rental.customerId !== id || !canAccessBranch(req, rental.branchId)) {
+      return res.status(404).json({ error: 'Rental not found for this customer' });
+    }
+
+    const result = await prisma.$transaction(async (prisma) => {
+      return applyWalletCredit(prisma, rentalId, { amount, actor: req.user });
+    });
+
+    if (!result) {
+      return res.status(400).json({ error: 'Nothing to apply: the rental is fully paid or the wallet is empty' });
+    }
+
+    res.status(201).json({
+      ...result,
+      balance: await getWalletBalance(prisma, id)
+    });
+  } catch (error) {
+    console.error('Error applying wallet credit:', error);
+    res.status(500).json({ error: 'Failed to apply wallet credit' });
+  }
+});
+
+// Pay wallet credit back out to the customer
+router.post('/:id/wallet/withdraw', requireAuth, requirePermission('payment:refund'), validate(walletMovement), async (req: ValidatedRequest<typeof walletMovement>, res) => {
+  try {
+    const { id } = req.params;
+    const { amount, paymentMethod, note } = req.body;
+
+    const customer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const transaction = await prisma.$transaction(async (prisma) => {
+      await lockWallet(prisma, id);
+      const available = await getWalletBalance(prisma, id);
+      if (amount > available) {
+        return null;
+      }
+
+      return recordWalletTransaction(prisma, {
+        customerId: id,
+        type: 'WITHDRAWAL',
+        amount: -amount,
+        paymentMethod,
+        note,
+        branchId: req.user?.branchId,
+        actor: req.user
+      });
+    });
+
+    if (!transaction) {
+      return res.status(400).json({ error: 'Amount exceeds the available wallet balance' });
+    }
+
+    res.status(201).json({
+      transaction,
+      balance: await getWalletBalance(prisma, id)
+    });
+  } catch (error) {
+    console.error('Error withdrawing wallet credit:', error);
+    res.status(500).json({ error: 'Failed to withdraw wallet credit' });
+  }
+});
+
+// Explain a customer's credit rating factor by factor, with the score each rental contributed
+router.get('/:id/credit-score', requireAuth, requirePermission('customer:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const customer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    res.json({
+      customerId: id,
+      currentRating: customer.creditRating,
+      pinnedUntil: isCreditRatingPinned(customer) ? customer.creditRatingPinnedUntil : null,
+      ...(await getCreditScore(prisma, customer))
+    });
+  } catch (error) {
+    console.error('Error fetching customer credit score:', error);
+    res.status(500).json({ error: 'Failed to fetch customer credit score' });
+  }
+});
 
-    // Validate required fields
-    if (!name || !phoneNumber) {
-      return res.status(400).json({ error: 'Name and phone number are required' });
+// Get a customer's credit rating history, newest first, with who made each change and why
+router.get('/:id/credit-rating/history', requireAuth, requirePermission('customer:view'), validate(creditRatingHistory), async (req: ValidatedRequest<typeof creditRatingHistory>, res) => {
+  try {
+    const { id } = req.params;
+    const list = toListOptions(req.query);
+
+    const customer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
     }
 
+    const where = { customerId: id };
+    const total = await prisma.creditRatingChange.count({ where });
+    const changes = await prisma.creditRatingChange.findMany({
+      where,
+      include: {
+        changedBy: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+
+    res.json(toPage(changes, total, list));
+  } catch (error) {
+    console.error('Error fetching credit rating history:', error);
+    res.status(500).json({ error: 'Failed to fetch credit rating history' });
+  }
+});
+
+// Recompute every customer's credit rating, e.g. after the CREDIT_* scoring rules change
+router.post('/credit-scores/recompute', requireAuth, requirePermission('customer:edit-credit'), async (req, res) => {
+  try {
+    res.json(await recalculateAllCreditRatings(prisma, req.user));
+  } catch (error) {
+    console.error('Error recomputing credit ratings:', error);
+    res.status(500).json({ error: 'Failed to recompute credit ratings' });
+  }
+});
+
+// Check whether a customer may take another battery right now, with the outcome of every rule
+router.get('/:id/eligibility', requireAuth, requirePermission('customer:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const customer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    res.json(await checkRentalEligibility(prisma, customer));
+  } catch (error) {
+    console.error('Error checking customer eligibility:', error);
+    res.status(500).json({ error: 'Failed to check customer eligibility' });
+  }
+});
+
+// Blacklist a customer so they cannot rent without an override
+router.put('/:id/blacklist', requireAuth, requirePermission('customer:blacklist'), validate(blacklistCustomer), async (req: ValidatedRequest<typeof blacklistCustomer>, res) => {
+  try {
+    const { id } = req.params;
+    const { reason } = req.body;
+
+    const existingCustomer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!existingCustomer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const updatedCustomer = await prisma.$transaction(async (prisma) => {
+      const customer = await prisma.customer.update({
+        where: { id },
+        data: {
+          isBlacklisted: true,
+          blacklistReason: reason,
+          blacklistedAt: new Date()
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Customer',
+        entityId: id,
+        before: existingCustomer,
+        after: customer
+      });
+
+      return customer;
+    });
+
+    res.json(updatedCustomer);
+  } catch (error) {
+    console.error('Error blacklisting customer:', error);
+    res.status(500).json({ error: 'Failed to blacklist customer' });
+  }
+});
+
+// Take a customer off the blacklist
+router.delete('/:id/blacklist', requireAuth, requirePermission('customer:blacklist'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingCustomer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!existingCustomer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    if (!existingCustomer.isBlacklisted) {
+      return res.status(400).json({ error: 'Customer is not blacklisted' });
+    }
+
+    const updatedCustomer = await prisma.$transaction(async (prisma) => {
+      const customer = await prisma.customer.update({
+        where: { id },
+        data: {
+          isBlacklisted: false,
+          blacklistReason: null,
+          blacklistedAt: null
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Customer',
+        entityId: id,
+        before: existingCustomer,
+        after: customer
+      });
+
+      return customer;
+    });
+
+    res.json(updatedCustomer);
+  } catch (error) {
+    console.error('Error clearing customer blacklist:', error);
+    res.status(500).json({ error: 'Failed to clear customer blacklist' });
+  }
+});
+
+// Add a new customer
+router.post('/',requireAuth, requirePermission('customer:create'), validate(createCustomer), async (req: ValidatedRequest<typeof createCustomer>, res) => {
+  try {
+    const { name, phoneNumber, address } = req.body;
+
     // Check if customer with phone number already exists
     const existingCustomer = await prisma.customer.findUnique({
       where: { phoneNumber }
     });
 
     if (existingCustomer) {
-      return res.status(400).json({ error: 'Customer with this phone number already exists' });
+      return res.status(400).json({
+        error: `Customer with this phone number already exists${existingCustomer.archivedAt ? ' (archived)' : ''}`
+      });
     }
 
-    const newCustomer = await prisma.customer.create({
-      data: {
-        name,
-        phoneNumber,
-        address: address || '',
-        creditRating: 3 // Default credit rating
-      }
+    const newCustomer = await prisma.$transaction(async (prisma) => {
+      const customer = await prisma.customer.create({
+        data: {
+          name,
+          phoneNumber,
+          phoneDigits: toPhoneDigits(phoneNumber),
+          address: address || '',
+          creditRating: 3 // Default credit rating
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'Customer',
+        entityId: customer.id,
+        after: customer
+      });
+
+      return customer;
     });
 
     res.status(201).json(newCustomer);
@@ -107,11 +536,83 @@ router.post('/', requireAuth, async (req, res) => {
   }
 });
 
-// Update a customer
-router.put('/:id', requireAuth, async (req, res) => {
+// Import customers from a CSV or Excel file. Invalid rows are reported and skipped; valid rows are
+// created together. With ?dryRun=true the file is only checked.
+router.post('/import', requireAuth, requirePermission('customer:create'), uploadSpreadsheet, validate(importCustomers), async (req: ValidatedRequest<typeof importCustomers>, res) => {
+  try {
+    const dryRun = !!(req.query.dryRun || req.body.dryRun);
+    if (!req.file) {
+      return res.status(400).json({ error: 'A CSV or Excel file is required in the "file" field' });
+    }
+    const rows = readSpreadsheet(req.file.buffer);
+
+    if (rows.length > IMPORT_MAX_ROWS) {
+      return res.status(400).json({ error: `A file can contain at most ${IMPORT_MAX_ROWS} rows` });
+    }
+
+    const result = validateCustomerRows(rows);
+    const existingCustomers = await prisma.customer.findMany({
+      where: { phoneNumber: { in: result.valid.map(({ value }) => value.phoneNumber) } },
+      select: { phoneNumber: true }
+    });
+    rejectDuplicates(
+      result,
+      customer => customer.phoneNumber,
+      new Set(existingCustomers.map(customer => customer.phoneNumber)),
+      'Customer with this phone number already exists'
+    );
+
+    let created = 0;
+    if (!dryRun && result.valid.length > 0) {
+      created = await prisma.$transaction(async (prisma) => {
+        for (const { value } of result.valid) {
+          const customer = await prisma.customer.create({
+            data: {
+              name: value.name,
+              phoneNumber: value.phoneNumber,
+              phoneDigits: toPhoneDigits(value.phoneNumber),
+              address: value.address,
+              creditRating: 3 // Default credit rating
+            }
+          });
+
+          await recordAudit(prisma, {
+            actor: req.user,
+            action: 'CREATE',
+            entityType: 'Customer',
+            entityId: customer.id,
+            after: customer
+          });
+        }
+
+        return result.valid.length;
+      }, { timeout: 60000 });
+    }
+
+    res.status(dryRun ? 200 : 201).json({
+      dryRun,
+      totalRows: result.valid.length + result.errors.length,
+      validRows: result.valid.length,
+      created,
+      errors: result.errors
+    });
+  } catch (error) {
+    console.error('Error importing customers:', error);
+    res.status(500).json({ error: 'Failed to import customers' });
+  }
+});
+
+// Update a customer. A manual credit rating (creditRating, with an optional creditRatingReason) is kept
+// in the rating history, and survives automatic recalculation until creditRatingPinnedUntil if given.
+router.put('/:id', requireAuth, requirePermission('customer:edit'), validate(updateCustomer), async (req: ValidatedRequest<typeof updateCustomer>, res) => {
   try {
     const { id } = req.params;
-    const { name, phoneNumber, address, creditRating } = req.body;
+    const { name, phoneNumber, address, creditRating, creditRatingReason, creditRatingPinnedUntil } = req.body;
+
+    // Overriding the automatic credit rating needs its own permission
+    if (creditRating !== undefined && !hasPermission(req.user, 'customer:edit-credit')) {
+      return res.status(403).json({ error: 'Unauthorized: missing permission customer:edit-credit' });
+    }
 
     // Check if customer exists
     const existingCustomer = await prisma.customer.findUnique({
@@ -129,18 +630,45 @@ router.put('/:id', requireAuth, async (req, res) => {
       });
 
       if (duplicatePhone) {
-        return res.status(400).json({ error: 'Customer with this phone number already exists' });
+        return res.status(400).json({
+          error: `Customer with this phone number already exists${duplicatePhone.archivedAt ? ' (archived)' : ''}`
+        });
       }
     }
 
-    const updatedCustomer = await prisma.customer.update({
-      where: { id },
-      data: {
-        ...(name && { name }),
-        ...(phoneNumber && { phoneNumber }),
-        ...(address !== undefined && { address }),
-        ...(creditRating !== undefined && { creditRating: parseInt(creditRating) })
+    const updatedCustomer = await prisma.$transaction(async (prisma) => {
+      let customer = existingCustomer;
+
+      if (name || phoneNumber || address !== undefined) {
+        customer = await prisma.customer.update({
+          where: { id },
+          data: {
+            ...(name && { name }),
+            ...(phoneNumber && { phoneNumber, phoneDigits: toPhoneDigits(phoneNumber) }),
+            ...(address !== undefined && { address })
+          }
+        });
+
+        await recordAudit(prisma, {
+          actor: req.user,
+          action: 'UPDATE',
+          entityType: 'Customer',
+          entityId: id,
+          before: existingCustomer,
+          after: customer
+        });
       }
+
+      if (creditRating !== undefined) {
+        customer = await setCreditRating(prisma, customer, {
+          rating: creditRating,
+          source: 'MANUAL',
+          reason: creditRatingReason,
+          pinnedUntil: creditRatingPinnedUntil ?? null
+        }, req.user);
+      }
+
+      return customer;
     });
 
     res.json(updatedCustomer);
@@ -150,8 +678,269 @@ router.put('/:id', requireAuth, async (req, res) => {
   }
 });
 
+// One-time pass that rewrites stored phone numbers in E.164. Numbers that would collide with another
+// customer are left alone and reported as duplicates to merge; with ?dryRun=true nothing is saved.
+router.post('/normalize-phone-numbers', requireAuth, requirePermission('customer:merge'), validate(normalizePhoneNumbers), async (req: ValidatedRequest<typeof normalizePhoneNumbers>, res) => {
+  try {
+    const dryRun = !!req.query.dryRun;
+
+    const customers = await prisma.customer.findMany({
+      orderBy: {
+        createdAt: 'asc'
+      }
+    });
+
+    const invalid: { id: string; name: string; phoneNumber: string; error?: string }[] = [];
+    const byNumber = new Map<string, typeof customers>();
+
+    customers.forEach(customer => {
+      const { phoneNumber, error } = normalizePhoneNumber(customer.phoneNumber);
+      if (!phoneNumber) {
+        invalid.push({ id: customer.id, name: customer.name, phoneNumber: customer.phoneNumber, error });
+        return;
+      }
+      byNumber.set(phoneNumber, [...(byNumber.get(phoneNumber) ?? []), customer]);
+    });
+
+    const conflicts = [...byNumber.entries()]
+      .filter(([, matches]) => matches.length > 1)
+      .map(([phoneNumber, matches]) => ({
+        phoneNumber,
+        customers: matches.map(({ id, name, phoneNumber }) => ({ id, name, phoneNumber }))
+      }));
+
+    const changes = [...byNumber.entries()]
+      .filter(([phoneNumber, matches]) => matches.length === 1 && matches[0].phoneNumber !== phoneNumber)
+      .map(([phoneNumber, [customer]]) => ({ customer, phoneNumber }));
+
+    if (!dryRun && changes.length > 0) {
+      await prisma.$transaction(async (prisma) => {
+        for (const { customer, phoneNumber } of changes) {
+          const updatedCustomer = await prisma.customer.update({
+            where: { id: customer.id },
+            data: { phoneNumber, phoneDigits: toPhoneDigits(phoneNumber) }
+          });
+
+          await recordAudit(prisma, {
+            actor: req.user,
+            action: 'UPDATE',
+            entityType: 'Customer',
+            entityId: customer.id,
+            before: customer,
+            after: updatedCustomer
+          });
+        }
+      }, { timeout: 60000 });
+    }
+
+    res.json({
+      dryRun,
+      updated: changes.length,
+      unchanged: [...byNumber.entries()].filter(([phoneNumber, matches]) => matches.length === 1 && matches[0].phoneNumber === phoneNumber).length,
+      invalid,
+      conflicts
+    });
+  } catch (error) {
+    console.error('Error normalizing phone numbers:', error);
+    res.status(500).json({ error: 'Failed to normalize phone numbers' });
+  }
+});
+
+// Merge a duplicate customer into this one: rentals, payments, wallet entries, notifications and rating history move
+// over, the duplicate is deleted and the surviving customer's credit rating is recomputed
+router.post('/:id/merge', requireAuth, requirePermission('customer:merge'), validate(mergeCustomers), async (req: ValidatedRequest<typeof mergeCustomers>, res) => {
+  try {
+    const { id } = req.params;
+    const { duplicateId } = req.body;
+
+    if (duplicateId === id) {
+      return res.status(400).json({ error: 'A customer cannot be merged into itself' });
+    }
+
+    const survivor = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!survivor) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const duplicate = await prisma.customer.findUnique({
+      where: { id: duplicateId }
+    });
+
+    if (!duplicate) {
+      return res.status(404).json({ error: 'Duplicate customer not found' });
+    }
+
+    const result = await prisma.$transaction(async (prisma) => {
+      const moveTo = { where: { customerId: duplicateId }, data: { customerId: id } };
+      const moved = {
+        rentals: (await prisma.rental.updateMany(moveTo)).count,
+        payments: (await prisma.payment.updateMany(moveTo)).count,
+        walletTransactions: (await prisma.walletTransaction.updateMany(moveTo)).count,
+        notifications: (await prisma.notification.updateMany(moveTo)).count,
+        creditRatingChanges: (await prisma.creditRatingChange.updateMany(moveTo)).count
+      };
+
+      await prisma.customer.delete({
+        where: { id: duplicateId }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'DELETE',
+        entityType: 'Customer',
+        entityId: duplicateId,
+        before: duplicate,
+        after: { mergedIntoCustomerId: id, moved }
+      });
+
+      // Keep the duplicate's address if the surviving record has none, and never lose a blacklisting
+      const carriedOver: Prisma.CustomerUpdateInput = {
+        ...(!survivor.address && duplicate.address && { address: duplicate.address }),
+        ...(!survivor.isBlacklisted && duplicate.isBlacklisted && {
+          isBlacklisted: true,
+          blacklistReason: duplicate.blacklistReason,
+          blacklistedAt: duplicate.blacklistedAt
+        })
+      };
+
+      if (Object.keys(carriedOver).length > 0) {
+        const updatedSurvivor = await prisma.customer.update({
+          where: { id },
+          data: carriedOver
+        });
+
+        await recordAudit(prisma, {
+          actor: req.user,
+          action: 'UPDATE',
+          entityType: 'Customer',
+          entityId: id,
+          before: survivor,
+          after: updatedSurvivor
+        });
+      }
+
+      await recalculateCreditRating(prisma, id, req.user);
+
+      return {
+        customer: await prisma.customer.findUnique({ where: { id } }),
+        mergedCustomerId: duplicateId,
+        moved
+      };
+    });
+
+    res.json(result);
+  } catch (error) {
+    console.error('Error merging customers:', error);
+    res.status(500).json({ error: 'Failed to merge customers' });
+  }
+});
+
+// Archive a customer: they are hidden from lists and cannot rent, but keep their rental and payment
+// history. Customers with a battery out or money owing must be settled first.
+router.put('/:id/archive', requireAuth, requirePermission('customer:delete'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingCustomer = await prisma.customer.findUnique({
+      where: { id },
+      include: {
+        rentals: {
+          where: openBalanceWhere,
+          include: { payments: true }
+        }
+      }
+    });
+
+    if (!existingCustomer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    if (existingCustomer.archivedAt) {
+      return res.status(400).json({ error: 'Customer is already archived' });
+    }
+
+    if (existingCustomer.rentals.some(rental => rental.returnDate === null)) {
+      return res.status(400).json({ error: 'Customer has a battery out. Return it before archiving the customer.' });
+    }
+
+    const dueAmount = existingCustomer.rentals.reduce((sum, rental) => sum + getRentalBalance(rental).remainingBalance, 0);
+    if (dueAmount > 0) {
+      return res.status(400).json({ error: `Customer owes ${dueAmount.toFixed(2)}. Settle the balance before archiving the customer.` });
+    }
+
+    const archivedCustomer = await prisma.$transaction(async (prisma) => {
+      const { rentals, ...customerBefore } = existingCustomer;
+      const customer = await prisma.customer.update({
+        where: { id },
+        data: { archivedAt: new Date() }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Customer',
+        entityId: id,
+        before: customerBefore,
+        after: customer
+      });
+
+      return customer;
+    });
+
+    res.json(archivedCustomer);
+  } catch (error) {
+    console.error('Error archiving customer:', error);
+    res.status(500).json({ error: 'Failed to archive customer' });
+  }
+});
+
+// Restore an archived customer
+router.put('/:id/restore', requireAuth, requirePermission('customer:delete'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingCustomer = await prisma.customer.findUnique({
+      where: { id }
+    });
+
+    if (!existingCustomer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    if (!existingCustomer.archivedAt) {
+      return res.status(400).json({ error: 'Customer is not archived' });
+    }
+
+    const restoredCustomer = await prisma.$transaction(async (prisma) => {
+      const customer = await prisma.customer.update({
+        where: { id },
+        data: { archivedAt: null }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Customer',
+        entityId: id,
+        before: existingCustomer,
+        after: customer
+      });
+
+      return customer;
+    });
+
+    res.json(restoredCustomer);
+  } catch (error) {
+    console.error('Error restoring customer:', error);
+    res.status(500).json({ error: 'Failed to restore customer' });
+  }
+});
+
 // Delete a customer
-router.delete('/:id', requireAdmin, async (req, res) => {
+router.delete('/:id', requireAuth, requirePermission('customer:delete'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
   try {
     const { id } = req.params;
 
@@ -160,7 +949,8 @@ router.delete('/:id', requireAdmin, async (req, res) => {
       where: { id },
       include: {
         rentals: true,
-        payments: true
+        payments: true,
+        walletTransactions: true
       }
     });
 
@@ -168,15 +958,27 @@ router.delete('/:id', requireAdmin, async (req, res) => {
       return res.status(404).json({ error: 'Customer not found' });
     }
 
-    // Check if customer has any rentals or payments
-    if (existingCustomer.rentals.length > 0 || existingCustomer.payments.length > 0) {
+    // Check if customer has any rentals, payments or wallet activity
+    if (existingCustomer.rentals.length > 0 || existingCustomer.payments.length > 0 || existingCustomer.walletTransactions.length > 0) {
       return res.status(400).json({ 
-        error: 'Cannot delete customer with rental or payment history.' 
+        error: 'Cannot delete customer with rental or payment history. Consider archiving them instead.' 
       });
     }
 
-    await prisma.customer.delete({
-      where: { id }
+    await prisma.$transaction(async (prisma) => {
+      const { rentals, payments, walletTransactions, ...customer } = existingCustomer;
+
+      await prisma.customer.delete({
+        where: { id }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'DELETE',
+        entityType: 'Customer',
+        entityId: id,
+        before: customer
+      });
     });
 
     res.json({ message: 'Customer deleted successfully' });
@@ -186,65 +988,69 @@ router.delete('/:id', requireAdmin, async (req, res) => {
   }
 });
 
-// Get customers with due balance
-router.get('/filter/with-dues', requireAuth, async (req, res) => {
+// Get a page of customers with due balance on rentals from the user's branch, largest due amount first
+router.get('/filter/with-dues', requireAuth, requirePermission('customer:view'), validate(customersWithDues), async (req: ValidatedRequest<typeof customersWithDues>, res) => {
   try {
-    // Get all customers with their rentals and payments
-    const customers = await prisma.customer.findMany({
-      include: {
-        rentals: {
-          where: {
-            isPaid: false
-          },
-          include: {
-            payments: true
-          }
-        }
-      }
-    });
+    const { sortBy, sortOrder } = req.query;
+    const list = toListOptions(req.query);
+    const direction = sortOrder === 'asc' ? 1 : -1;
 
-    // Filter customers with unpaid rentals and calculate due amounts
-    const customersWithDues = customers
-      .map(customer => {
-        let dueAmount = 0;
-        
-        customer.rentals.forEach(rental => {
-          const paidAmount = rental.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-          dueAmount += Number(rental.rentalPrice) - paidAmount;
-        });
-        
-        return {
-          id: customer.id,
-          name: customer.name,
-          phoneNumber: customer.phoneNumber,
-          creditRating: customer.creditRating,
-          dueAmount
-        };
-      })
-      .filter(customer => customer.dueAmount > 0)
-      .sort((a, b) => b.dueAmount - a.dueAmount);
-
-    res.json(customersWithDues);
+    const customers = (await findCustomersWithDues(branchWhere(req)))
+      .sort((a, b) =>
+        direction * (sortBy === 'name' ? a.name.localeCompare(b.name) : a[sortBy] - b[sortBy]) || a.id.localeCompare(b.id));
+
+    res.json(toPage(customers.slice(list.skip, list.skip + list.take), customers.length, list));
   } catch (error) {
     console.error('Error fetching customers with dues:', error);
     res.status(500).json({ error: 'Failed to fetch customers with dues' });
   }
 });
 
-// Get top customers by rental count
-router.get('/top/by-rentals', requireAuth, async (req, res) => {
+// Export customers with due balance as Excel or CSV
+router.get('/filter/with-dues/export', requireAuth, requirePermission('customer:view'), validate(exportCustomersWithDues), async (req: ValidatedRequest<typeof exportCustomersWithDues>, res) => {
+  try {
+    const { format } = req.query;
+
+    const customersWithDues = await findCustomersWithDues(branchWhere(req));
+
+    sendExport(res, {
+      filename: 'customers-with-dues',
+      format,
+      rows: customersWithDues,
+      columns: [
+        { header: 'Customer ID', value: customer => customer.id },
+        { header: 'Name', value: customer => customer.name },
+        { header: 'Phone Number', value: customer => customer.phoneNumber },
+        { header: 'Credit Rating', value: customer => customer.creditRating },
+        { header: 'Due Amount', value: customer => customer.dueAmount, type: 'amount' }
+      ]
+    });
+  } catch (error) {
+    console.error('Error exporting customers with dues:', error);
+    res.status(500).json({ error: 'Failed to export customers with dues' });
+  }
+});
+
+// Get a page of customers by rental count, most rentals first, counting rentals from the user's branch
+router.get('/top/by-rentals', requireAuth, requirePermission('customer:view'), validate(topCustomers), async (req: ValidatedRequest<typeof topCustomers>, res) => {
   try {
+    const list = toListOptions(req.query);
+    const direction = req.query.sortOrder === 'asc' ? 1 : -1;
+    const branch = branchWhere(req);
     const customers = await prisma.customer.findMany({
+      where: {
+        archivedAt: null,
+        ...(branch.branchId && { rentals: { some: branch } })
+      },
       include: {
         _count: {
-          select: { rentals: true }
+          select: { rentals: { where: branch } }
         }
       }
     });
 
     const topCustomers = customers
-      .sort((a, b) => b._count.rentals - a._count.rentals)
-      .slice(0, 5)
+      .sort((a, b) => direction * (a._count.rentals - b._count.rentals) || a.id.localeCompare(b.id))
       .map(customer => ({
         id: customer.id,
         name: customer.name,
@@ -253,11 +1059,42 @@ router.get('/top/by-rentals', requireAuth, async (req, res) => {
         creditRating: customer.creditRating
       }));
 
-    res.json(topCustomers);
+    res.json(toPage(topCustomers.slice(list.skip, list.skip + list.take), topCustomers.length, list));
   } catch (error) {
     console.error('Error fetching top customers:', error);
     res.status(500).json({ error: 'Failed to fetch top customers' });
   }
 });
 
+// Helper function to list customers with an outstanding balance, largest first
+async function findCustomersWithDues(branch: Prisma.RentalWhereInput) {
+  // Get all customers with their rentals and payments
+  const customers = await prisma.customer.findMany({
+    include: {
+      rentals: {
+        where: { ...openBalanceWhere, ...branch },
+        include: {
+          payments: true
+        }
+      }
+    }
+  });
+
+  // Filter customers with unpaid rentals and calculate due amounts
+  return customers
+    .map(customer => {
+      const dueAmount = customer.rentals.reduce((sum, rental) => sum + getRentalBalance(rental).remainingBalance, 0);
+
+      return {
+        id: customer.id,
+        name: customer.name,
+        phoneNumber: customer.phoneNumber,
+        creditRating: customer.creditRating,
+        dueAmount
+      };
+    })
+    .filter(customer => customer.dueAmount > 0)
+    .sort((a, b) => b.dueAmount - a.dueAmount);
+}
+
 export default router;
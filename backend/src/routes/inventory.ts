@@ -1,27 +1,143 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
-import { requireAuth, requireAdmin } from '../middleware/auth';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { hasPermission, requirePermission } from '../middleware/permissions';
+import { branchWhere, canAccessBranch } from '../middleware/branches';
+import { uploadSpreadsheet } from '../middleware/upload';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { IMPORT_MAX_ROWS, readSpreadsheet, rejectDuplicates, validateBatteryRows } from '../services/import';
+import { sendExport } from '../services/export';
+import { archivedWhere, toDateRange, toListOptions, toPage } from '../services/listQuery';
+import { getHealthThresholds, recordHealthReading } from '../services/batteryHealth';
+import { calculateDepreciation, closeLostRental, inServiceWhere, isDisposalStatus } from '../services/batteryLifecycle';
+import { byId } from '../schemas/common';
+import {
+  assetValueReport,
+  createBattery,
+  disposeBattery,
+  exportAssetValueReport,
+  exportBatteries,
+  importBatteries,
+  inventorySummary,
+  listBatteries,
+  recordBatteryHealth,
+  updateBattery
+} from '../schemas/inventory';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Get all batteries
-router.get('/', requireAuth, async (req, res) => {
+// Get a page of batteries in the user's branch, newest first. Filters: ?status= (one status or a
+// comma-separated list) and a date-added range (?startDate=, ?endDate=). Disposed batteries are left
+// out unless ?includeDisposed=true or they are asked for by status, archived ones unless ?includeArchived=true.
+router.get('/', requireAuth, requirePermission('battery:view'), validate(listBatteries), async (req: ValidatedRequest<typeof listBatteries>, res) => {
   try {
+    const { status: statuses, includeDisposed, includeArchived } = req.query;
+    const list = toListOptions(req.query);
+    const range = toDateRange(req.query);
+
+    const where: Prisma.BatteryWhereInput = {
+      ...(statuses
+        ? { status: { in: statuses } }
+        : includeDisposed ? {} : inServiceWhere),
+      ...(range && { dateAdded: range }),
+      ...archivedWhere(includeArchived),
+      ...branchWhere(req)
+    };
+
+    const total = await prisma.battery.count({ where });
     const batteries = await prisma.battery.findMany({
+      where,
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+
+    res.json(toPage(batteries, total, list));
+  } catch (error) {
+    console.error('Error fetching batteries:', error);
+    res.status(500).json({ error: 'Failed to fetch batteries' });
+  }
+});
+
+// Export the inventory list as Excel or CSV (registered before /:id so "export" is not read as an ID)
+router.get('/export', requireAuth, requirePermission('battery:view'), validate(exportBatteries), async (req: ValidatedRequest<typeof exportBatteries>, res) => {
+  try {
+    const { format, includeDisposed, includeArchived } = req.query;
+
+    const batteries = await prisma.battery.findMany({
+      where: {
+        ...(includeDisposed ? {} : inServiceWhere),
+        ...archivedWhere(includeArchived),
+        ...branchWhere(req)
+      },
       orderBy: {
         dateAdded: 'desc'
       }
     });
-    res.json(batteries);
+
+    sendExport(res, {
+      filename: 'inventory',
+      format,
+      rows: batteries,
+      columns: [
+        { header: 'Battery ID', value: battery => battery.id },
+        { header: 'Serial Number', value: battery => battery.serialNumber },
+        { header: 'Status', value: battery => battery.status },
+        { header: 'Price', value: battery => battery.price, type: 'amount' },
+        { header: 'Date Added', value: battery => battery.dateAdded, type: 'date' },
+        { header: 'Disposed On', value: battery => battery.disposedAt, type: 'date' },
+        { header: 'Disposal Reason', value: battery => battery.disposalReason }
+      ]
+    });
   } catch (error) {
-    console.error('Error fetching batteries:', error);
-    res.status(500).json({ error: 'Failed to fetch batteries' });
+    console.error('Error exporting batteries:', error);
+    res.status(500).json({ error: 'Failed to export batteries' });
+  }
+});
+
+// Asset value of the fleet as of a date (default today), using straight-line depreciation
+router.get('/report/asset-value', requireAuth, requirePermission('report:view'), validate(assetValueReport), async (req: ValidatedRequest<typeof assetValueReport>, res) => {
+  try {
+    const report = await getAssetValueReport(req.query.asOf ?? new Date(), branchWhere(req));
+    res.json(report);
+  } catch (error) {
+    console.error('Error fetching asset value report:', error);
+    res.status(500).json({ error: 'Failed to fetch asset value report' });
+  }
+});
+
+// Export the asset value report as Excel or CSV
+router.get('/report/asset-value/export', requireAuth, requirePermission('report:view'), validate(exportAssetValueReport), async (req: ValidatedRequest<typeof exportAssetValueReport>, res) => {
+  try {
+    const { format, asOf } = req.query;
+    const report = await getAssetValueReport(asOf ?? new Date(), branchWhere(req));
+
+    sendExport(res, {
+      filename: 'asset-value',
+      format,
+      rows: report.batteries,
+      columns: [
+        { header: 'Battery ID', value: row => row.id },
+        { header: 'Serial Number', value: row => row.serialNumber },
+        { header: 'Status', value: row => row.status },
+        { header: 'Date Added', value: row => row.dateAdded, type: 'date' },
+        { header: 'Disposed On', value: row => row.disposedAt, type: 'date' },
+        { header: 'Cost', value: row => row.depreciation.cost, type: 'amount' },
+        { header: 'Age (Months)', value: row => row.depreciation.ageMonths },
+        { header: 'Accumulated Depreciation', value: row => row.depreciation.accumulatedDepreciation, type: 'amount' },
+        { header: 'Book Value', value: row => row.depreciation.bookValue, type: 'amount' }
+      ]
+    });
+  } catch (error) {
+    console.error('Error exporting asset value report:', error);
+    res.status(500).json({ error: 'Failed to export asset value report' });
   }
 });
 
 // Get a single battery by ID
-router.get('/:id', requireAuth, async (req, res) => {
+router.get('/:id', requireAuth, requirePermission('battery:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
   try {
     const { id } = req.params;
     const battery = await prisma.battery.findUnique({
@@ -34,29 +150,106 @@ router.get('/:id', requireAuth, async (req, res) => {
           orderBy: {
             rentDate: 'desc'
           }
+        },
+        maintenanceTickets: {
+          orderBy: {
+            openedAt: 'desc'
+          }
         }
       }
     });
 
-    if (!battery) {
+    if (!battery || !canAccessBranch(req, battery.branchId)) {
       return res.status(404).json({ error: 'Battery not found' });
     }
 
-    res.json(battery);
+    res.json({
+      ...battery,
+      maintenanceCost: battery.maintenanceTickets.reduce((sum, ticket) => sum + Number(ticket.cost), 0)
+    });
   } catch (error) {
     console.error('Error fetching battery:', error);
     res.status(500).json({ error: 'Failed to fetch battery' });
   }
 });
 
+// Get a battery's health readings, oldest first, with the overall trend
+router.get('/:id/health', requireAuth, requirePermission('battery:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+    const battery = await prisma.battery.findUnique({
+      where: { id },
+      include: {
+        healthReadings: {
+          orderBy: {
+            recordedAt: 'asc'
+          }
+        }
+      }
+    });
+
+    if (!battery || !canAccessBranch(req, battery.branchId)) {
+      return res.status(404).json({ error: 'Battery not found' });
+    }
+
+    const { healthReadings, ...batteryDetails } = battery;
+    const withHealth = healthReadings.filter(reading => reading.stateOfHealth !== null);
+    const first = withHealth[0];
+    const latest = withHealth[withHealth.length - 1];
+    const latestCycles = [...healthReadings].reverse().find(reading => reading.chargeCycles !== null);
+
+    res.json({
+      battery: batteryDetails,
+      readings: healthReadings,
+      trend: {
+        latestStateOfHealth: latest ? Number(latest.stateOfHealth) : null,
+        stateOfHealthChange: latest && first !== latest ? Number(latest.stateOfHealth) - Number(first.stateOfHealth) : null,
+        latestChargeCycles: latestCycles?.chargeCycles ?? null,
+        thresholds: getHealthThresholds()
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching battery health:', error);
+    res.status(500).json({ error: 'Failed to fetch battery health' });
+  }
+});
+
+// Record a health reading outside a return (e.g. a routine check)
+router.post('/:id/health', requireAuth, requirePermission('maintenance:manage'), validate(recordBatteryHealth), async (req: ValidatedRequest<typeof recordBatteryHealth>, res) => {
+  try {
+    const { id } = req.params;
+
+    const battery = await prisma.battery.findUnique({
+      where: { id }
+    });
+
+    if (!battery || !canAccessBranch(req, battery.branchId)) {
+      return res.status(404).json({ error: 'Battery not found' });
+    }
+
+    const result = await prisma.$transaction(async (prisma) => {
+      return recordHealthReading(prisma, id, req.body, { actor: req.user });
+    });
+
+    res.status(201).json(result);
+  } catch (error) {
+    console.error('Error recording battery health:', error);
+    res.status(500).json({ error: 'Failed to record battery health' });
+  }
+});
+
 // Add a new battery
-router.post('/', requireAuth, async (req, res) => {
+router.post('/', requireAuth, requirePermission('battery:create'), validate(createBattery), async (req: ValidatedRequest<typeof createBattery>, res) => {
   try {
     const { serialNumber, price } = req.body;
 
-    // Validate required fields
-    if (!serialNumber || !price) {
-      return res.status(400).json({ error: 'Serial number and price are required' });
+    // New stock goes to the user's own branch unless they may place it in any branch
+    const branchId = hasPermission(req.user, 'branch:all') && req.body.branchId !== undefined
+      ? req.body.branchId
+      : req.user?.branchId;
+
+    if (branchId && !(await prisma.branch.findUnique({ where: { id: branchId } }))) {
+      return res.status(400).json({ error: 'Branch not found' });
     }
 
     // Check if battery with serial number already exists
@@ -65,15 +258,30 @@ router.post('/', requireAuth, async (req, res) => {
     });
 
     if (existingBattery) {
-      return res.status(400).json({ error: 'Battery with this serial number already exists' });
+      return res.status(400).json({
+        error: `Battery with this serial number already exists${existingBattery.archivedAt ? ' (archived)' : ''}`
+      });
     }
 
-    const newBattery = await prisma.battery.create({
-      data: {
-        serialNumber,
-        price: parseFloat(price),
-        status: 'AVAILABLE'
-      }
+    const newBattery = await prisma.$transaction(async (prisma) => {
+      const battery = await prisma.battery.create({
+        data: {
+          serialNumber,
+          price,
+          status: 'AVAILABLE',
+          branchId
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'Battery',
+        entityId: battery.id,
+        after: battery
+      });
+
+      return battery;
     });
 
     res.status(201).json(newBattery);
@@ -83,21 +291,132 @@ router.post('/', requireAuth, async (req, res) => {
   }
 });
 
+// Import batteries from a CSV or Excel file. Invalid rows are reported and skipped; valid rows are
+// created together. With ?dryRun=true the file is only checked.
+router.post('/import', requireAuth, requirePermission('battery:create'), uploadSpreadsheet, validate(importBatteries), async (req: ValidatedRequest<typeof importBatteries>, res) => {
+  try {
+    const dryRun = !!(req.query.dryRun || req.body.dryRun);
+    if (!req.file) {
+      return res.status(400).json({ error: 'A CSV or Excel file is required in the "file" field' });
+    }
+    const rows = readSpreadsheet(req.file.buffer);
+
+    if (rows.length > IMPORT_MAX_ROWS) {
+      return res.status(400).json({ error: `A file can contain at most ${IMPORT_MAX_ROWS} rows` });
+    }
+
+    // Imported stock goes to a branch the same way a single new battery does
+    const branchId = hasPermission(req.user, 'branch:all') && req.body.branchId
+      ? req.body.branchId
+      : req.user?.branchId;
+
+    if (branchId && !(await prisma.branch.findUnique({ where: { id: branchId } }))) {
+      return res.status(400).json({ error: 'Branch not found' });
+    }
+
+    const result = validateBatteryRows(rows);
+    const existingBatteries = await prisma.battery.findMany({
+      where: { serialNumber: { in: result.valid.map(({ value }) => value.serialNumber) } },
+      select: { serialNumber: true }
+    });
+    rejectDuplicates(
+      result,
+      battery => battery.serialNumber,
+      new Set(existingBatteries.map(battery => battery.serialNumber)),
+      'Battery with this serial number already exists'
+    );
+
+    let created = 0;
+    if (!dryRun && result.valid.length > 0) {
+      created = await prisma.$transaction(async (prisma) => {
+        for (const { value } of result.valid) {
+          const battery = await prisma.battery.create({
+            data: {
+              serialNumber: value.serialNumber,
+              price: value.price,
+              status: 'AVAILABLE',
+              branchId,
+              ...(value.dateAdded && { dateAdded: value.dateAdded })
+            }
+          });
+
+          await recordAudit(prisma, {
+            actor: req.user,
+            action: 'CREATE',
+            entityType: 'Battery',
+            entityId: battery.id,
+            after: battery
+          });
+        }
+
+        return result.valid.length;
+      }, { timeout: 60000 });
+    }
+
+    res.status(dryRun ? 200 : 201).json({
+      dryRun,
+      totalRows: result.valid.length + result.errors.length,
+      validRows: result.valid.length,
+      created,
+      errors: result.errors
+    });
+  } catch (error) {
+    console.error('Error importing batteries:', error);
+    res.status(500).json({ error: 'Failed to import batteries' });
+  }
+});
+
 // Update a battery
-router.put('/:id', requireAuth, async (req, res) => {
+router.put('/:id', requireAuth, requirePermission('battery:edit'), validate(updateBattery), async (req: ValidatedRequest<typeof updateBattery>, res) => {
   try {
     const { id } = req.params;
-    const { serialNumber, price, status } = req.body;
+    const { serialNumber, price, status, branchId } = req.body;
 
     // Check if battery exists
     const existingBattery = await prisma.battery.findUnique({
-      where: { id }
+      where: { id },
+      include: {
+        maintenanceTickets: {
+          where: { closedAt: null }
+        }
+      }
     });
 
-    if (!existingBattery) {
+    if (!existingBattery || !canAccessBranch(req, existingBattery.branchId)) {
       return res.status(404).json({ error: 'Battery not found' });
     }
 
+    // Batteries leave the fleet through the dispose endpoint, and do not come back
+    if (status && isDisposalStatus(status)) {
+      return res.status(400).json({ error: 'Use the dispose endpoint to retire, lose or sell a battery' });
+    }
+
+    if (status && status !== existingBattery.status && isDisposalStatus(existingBattery.status)) {
+      return res.status(400).json({ error: `Battery has been disposed of (${existingBattery.status})` });
+    }
+
+    if (status === 'IN_TRANSIT' && existingBattery.status !== 'IN_TRANSIT') {
+      return res.status(400).json({ error: 'Use the transfer endpoints to move a battery between branches' });
+    }
+
+    // Batteries normally move through transfers; direct reassignment is for setting up branches
+    if (branchId !== undefined && branchId !== existingBattery.branchId) {
+      if (!hasPermission(req.user, 'branch:manage')) {
+        return res.status(403).json({ error: 'Unauthorized: missing permission branch:manage' });
+      }
+      if (existingBattery.status === 'RENTED' || existingBattery.status === 'IN_TRANSIT') {
+        return res.status(400).json({ error: 'A rented or in-transit battery cannot change branch' });
+      }
+      if (branchId && !(await prisma.branch.findUnique({ where: { id: branchId } }))) {
+        return res.status(400).json({ error: 'Branch not found' });
+      }
+    }
+
+    // While a ticket is open the status follows the ticket
+    if (status && status !== existingBattery.status && existingBattery.maintenanceTickets.length > 0) {
+      return res.status(400).json({ error: 'Battery has an open maintenance ticket. Close the ticket to change its status.' });
+    }
+
     // If serial number is being changed, check if it's unique
     if (serialNumber && serialNumber !== existingBattery.serialNumber) {
       const duplicateSerial = await prisma.battery.findUnique({
@@ -105,17 +424,34 @@ router.put('/:id', requireAuth, async (req, res) => {
       });
 
       if (duplicateSerial) {
-        return res.status(400).json({ error: 'Battery with this serial number already exists' });
+        return res.status(400).json({
+          error: `Battery with this serial number already exists${duplicateSerial.archivedAt ? ' (archived)' : ''}`
+        });
       }
     }
 
-    const updatedBattery = await prisma.battery.update({
-      where: { id },
-      data: {
-        ...(serialNumber && { serialNumber }),
-        ...(price && { price: parseFloat(price) }),
-        ...(status && { status })
-      }
+    const updatedBattery = await prisma.$transaction(async (prisma) => {
+      const { maintenanceTickets, ...batteryBefore } = existingBattery;
+      const battery = await prisma.battery.update({
+        where: { id },
+        data: {
+          ...(serialNumber !== undefined && { serialNumber }),
+          ...(price !== undefined && { price }),
+          ...(status && { status }),
+          ...(branchId !== undefined && { branchId })
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: id,
+        before: batteryBefore,
+        after: battery
+      });
+
+      return battery;
     });
 
     res.json(updatedBattery);
@@ -125,8 +461,203 @@ router.put('/:id', requireAuth, async (req, res) => {
   }
 });
 
+// Take a battery out of the fleet: RETIRED, LOST or SOLD, with a reason and date
+router.put('/:id/dispose', requireAuth, requirePermission('battery:dispose'), validate(disposeBattery), async (req: ValidatedRequest<typeof disposeBattery>, res) => {
+  try {
+    const { id } = req.params;
+    const { status, reason, disposedAt, salePrice } = req.body;
+
+    const existingBattery = await prisma.battery.findUnique({
+      where: { id },
+      include: {
+        maintenanceTickets: {
+          where: { closedAt: null }
+        }
+      }
+    });
+
+    if (!existingBattery || !canAccessBranch(req, existingBattery.branchId)) {
+      return res.status(404).json({ error: 'Battery not found' });
+    }
+
+    if (isDisposalStatus(existingBattery.status)) {
+      return res.status(400).json({ error: `Battery has already been disposed of (${existingBattery.status})` });
+    }
+
+    // A rented battery can only be reported lost; the rental is closed on the loss date
+    if (existingBattery.status === 'RENTED' && status !== 'LOST') {
+      return res.status(400).json({ error: 'Battery is currently rented. Return it before disposing of it, or report it LOST.' });
+    }
+
+    if (existingBattery.status === 'IN_TRANSIT') {
+      return res.status(400).json({ error: 'Battery is in transit. Receive or cancel the transfer first.' });
+    }
+
+    const disposalDate = disposedAt ?? new Date();
+    const openRental = existingBattery.status === 'RENTED'
+      ? await prisma.rental.findFirst({
+          where: { batteryId: id, returnDate: null },
+          include: { payments: true, pricingPlan: true }
+        })
+      : null;
+
+    if (openRental && disposalDate < openRental.rentDate) {
+      return res.status(400).json({ error: 'A battery cannot be lost before the rental it was lost on started' });
+    }
+
+    if (existingBattery.maintenanceTickets.length > 0) {
+      return res.status(400).json({ error: 'Battery has an open maintenance ticket. Close the ticket first.' });
+    }
+
+    const disposedBattery = await prisma.$transaction(async (prisma) => {
+      // Only dispose of the battery if nobody returned, rented or moved it since the checks above
+      const claimed = await prisma.battery.updateMany({
+        where: { id, status: existingBattery.status },
+        data: {
+          status,
+          disposalReason: reason,
+          disposedAt: disposalDate,
+          salePrice
+        }
+      });
+      if (claimed.count !== 1) {
+        return null;
+      }
+
+      const { maintenanceTickets, ...batteryBefore } = existingBattery;
+      const battery = await prisma.battery.findUniqueOrThrow({
+        where: { id }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: id,
+        before: batteryBefore,
+        after: battery
+      });
+
+      const lostRental = openRental ? await closeLostRental(prisma, openRental, disposalDate, req.user) : null;
+
+      return { ...battery, lostRental };
+    });
+
+    if (!disposedBattery) {
+      return res.status(409).json({ error: 'Battery changed while it was being disposed of. Try again.' });
+    }
+
+    res.json(disposedBattery);
+  } catch (error) {
+    console.error('Error disposing of battery:', error);
+    res.status(500).json({ error: 'Failed to dispose of battery' });
+  }
+});
+
+// Archive a battery: it is hidden from lists and summaries but keeps its rental and maintenance history
+router.put('/:id/archive', requireAuth, requirePermission('battery:delete'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingBattery = await prisma.battery.findUnique({
+      where: { id },
+      include: {
+        maintenanceTickets: {
+          where: { closedAt: null }
+        }
+      }
+    });
+
+    if (!existingBattery || !canAccessBranch(req, existingBattery.branchId)) {
+      return res.status(404).json({ error: 'Battery not found' });
+    }
+
+    if (existingBattery.archivedAt) {
+      return res.status(400).json({ error: 'Battery is already archived' });
+    }
+
+    if (existingBattery.status === 'RENTED') {
+      return res.status(400).json({ error: 'Battery is currently rented. Return it before archiving it.' });
+    }
+
+    if (existingBattery.status === 'IN_TRANSIT') {
+      return res.status(400).json({ error: 'Battery is in transit. Receive or cancel the transfer first.' });
+    }
+
+    if (existingBattery.maintenanceTickets.length > 0) {
+      return res.status(400).json({ error: 'Battery has an open maintenance ticket. Close the ticket first.' });
+    }
+
+    const archivedBattery = await prisma.$transaction(async (prisma) => {
+      const { maintenanceTickets, ...batteryBefore } = existingBattery;
+      const battery = await prisma.battery.update({
+        where: { id },
+        data: { archivedAt: new Date() }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: id,
+        before: batteryBefore,
+        after: battery
+      });
+
+      return battery;
+    });
+
+    res.json(archivedBattery);
+  } catch (error) {
+    console.error('Error archiving battery:', error);
+    res.status(500).json({ error: 'Failed to archive battery' });
+  }
+});
+
+// Restore an archived battery
+router.put('/:id/restore', requireAuth, requirePermission('battery:delete'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingBattery = await prisma.battery.findUnique({
+      where: { id }
+    });
+
+    if (!existingBattery || !canAccessBranch(req, existingBattery.branchId)) {
+      return res.status(404).json({ error: 'Battery not found' });
+    }
+
+    if (!existingBattery.archivedAt) {
+      return res.status(400).json({ error: 'Battery is not archived' });
+    }
+
+    const restoredBattery = await prisma.$transaction(async (prisma) => {
+      const battery = await prisma.battery.update({
+        where: { id },
+        data: { archivedAt: null }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: id,
+        before: existingBattery,
+        after: battery
+      });
+
+      return battery;
+    });
+
+    res.json(restoredBattery);
+  } catch (error) {
+    console.error('Error restoring battery:', error);
+    res.status(500).json({ error: 'Failed to restore battery' });
+  }
+});
+
 // Delete a battery
-router.delete('/:id', requireAdmin, async (req, res) => {
+router.delete('/:id', requireAuth, requirePermission('battery:delete'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
   try {
     const { id } = req.params;
 
@@ -134,23 +665,37 @@ router.delete('/:id', requireAdmin, async (req, res) => {
     const existingBattery = await prisma.battery.findUnique({
       where: { id },
       include: {
-        rentals: true
+        rentals: true,
+        maintenanceTickets: true,
+        healthReadings: true
       }
     });
 
-    if (!existingBattery) {
+    if (!existingBattery || !canAccessBranch(req, existingBattery.branchId)) {
       return res.status(404).json({ error: 'Battery not found' });
     }
 
-    // Check if battery has any rentals
-    if (existingBattery.rentals.length > 0) {
+    // Check if battery has any rentals or maintenance history
+    if (existingBattery.rentals.length > 0 || existingBattery.maintenanceTickets.length > 0 || existingBattery.healthReadings.length > 0) {
       return res.status(400).json({ 
-        error: 'Cannot delete battery with rental history. Consider marking it as MAINTENANCE instead.' 
+        error: 'Cannot delete battery with rental or maintenance history. Consider retiring or archiving it instead.' 
       });
     }
 
-    await prisma.battery.delete({
-      where: { id }
+    await prisma.$transaction(async (prisma) => {
+      const { rentals, maintenanceTickets, healthReadings, ...battery } = existingBattery;
+
+      await prisma.battery.delete({
+        where: { id }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'DELETE',
+        entityType: 'Battery',
+        entityId: id,
+        before: battery
+      });
     });
 
     res.json({ message: 'Battery deleted successfully' });
@@ -160,25 +705,48 @@ router.delete('/:id', requireAdmin, async (req, res) => {
   }
 });
 
-// Get inventory summary
-router.get('/summary/stats', requireAuth, async (req, res) => {
+// Get inventory summary for the user's branch. Disposed batteries are counted separately and left out of the total;
+// archived batteries are left out entirely.
+router.get('/summary/stats', requireAuth, requirePermission('battery:view'), validate(inventorySummary), async (req: ValidatedRequest<typeof inventorySummary>, res) => {
   try {
-    const totalBatteries = await prisma.battery.count();
+    const branch = { ...branchWhere(req), archivedAt: null };
+
+    const totalBatteries = await prisma.battery.count({
+      where: { ...inServiceWhere, ...branch }
+    });
     const availableBatteries = await prisma.battery.count({
-      where: { status: 'AVAILABLE' }
+      where: { status: 'AVAILABLE', ...branch }
     });
     const rentedBatteries = await prisma.battery.count({
-      where: { status: 'RENTED' }
+      where: { status: 'RENTED', ...branch }
     });
     const maintenanceBatteries = await prisma.battery.count({
-      where: { status: 'MAINTENANCE' }
+      where: { status: 'MAINTENANCE', ...branch }
+    });
+    const inTransitBatteries = await prisma.battery.count({
+      where: { status: 'IN_TRANSIT', ...branch }
+    });
+    const retiredBatteries = await prisma.battery.count({
+      where: { status: 'RETIRED', ...branch }
+    });
+    const lostBatteries = await prisma.battery.count({
+      where: { status: 'LOST', ...branch }
+    });
+    const soldBatteries = await prisma.battery.count({
+      where: { status: 'SOLD', ...branch }
     });
 
     res.json({
       total: totalBatteries,
       available: availableBatteries,
       rented: rentedBatteries,
-      maintenance: maintenanceBatteries
+      maintenance: maintenanceBatteries,
+      inTransit: inTransitBatteries,
+      disposed: {
+        retired: retiredBatteries,
+        lost: lostBatteries,
+        sold: soldBatteries
+      }
     });
   } catch (error) {
     console.error('Error fetching inventory summary:', error);
@@ -186,4 +754,31 @@ router.get('/summary/stats', requireAuth, async (req, res) => {
   }
 });
 
+// Depreciated value of every battery added by asOf. Totals cover batteries still in service.
+async function getAssetValueReport(asOf: Date, branch: Prisma.BatteryWhereInput) {
+  const batteries = await prisma.battery.findMany({
+    where: { dateAdded: { lte: asOf }, ...branch },
+    orderBy: {
+      dateAdded: 'asc'
+    }
+  });
+
+  const rows = batteries.map(battery => ({
+    ...battery,
+    depreciation: calculateDepreciation(battery, asOf)
+  }));
+  const inService = rows.filter(row => !isDisposalStatus(row.status) || (row.disposedAt && row.disposedAt > asOf));
+
+  return {
+    asOf,
+    batteries: rows,
+    totals: {
+      count: inService.length,
+      cost: inService.reduce((sum, row) => sum + row.depreciation.cost, 0),
+      accumulatedDepreciation: inService.reduce((sum, row) => sum + row.depreciation.accumulatedDepreciation, 0),
+      bookValue: inService.reduce((sum, row) => sum + row.depreciation.bookValue, 0)
+    }
+  };
+}
+
 export default router;
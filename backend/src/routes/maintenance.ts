@@ -0,0 +1,333 @@
+import express from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { branchWhere, canAccessBranch } from '../middleware/branches';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { sendExport } from '../services/export';
+import { toDateRange, toListOptions, toPage } from '../services/listQuery';
+import { openMaintenanceTicket } from '../services/maintenance';
+import { isDisposalStatus } from '../services/batteryLifecycle';
+import { byId } from '../schemas/common';
+import {
+  closeTicket,
+  exportMaintenanceCostReport,
+  listTickets,
+  maintenanceCostReport,
+  openTicket,
+  updateTicket
+} from '../schemas/maintenance';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Total maintenance cost and ticket count per battery, most expensive first
+async function getMaintenanceCostReport(branch: Prisma.BatteryWhereInput, startDate?: Date, endDate?: Date) {
+  // Either end of the range may be given on its own
+  const range = toDateRange({ startDate, endDate });
+  const where: Prisma.MaintenanceTicketWhereInput = {
+    ...(range && { openedAt: range }),
+    battery: branch
+  };
+
+  const totals = await prisma.maintenanceTicket.groupBy({
+    by: ['batteryId'],
+    where,
+    _sum: { cost: true },
+    _count: { _all: true }
+  });
+
+  const batteries = await prisma.battery.findMany({
+    where: { id: { in: totals.map(total => total.batteryId) } }
+  });
+
+  return totals
+    .map(total => {
+      const battery = batteries.find(b => b.id === total.batteryId);
+      return {
+        batteryId: total.batteryId,
+        serialNumber: battery?.serialNumber,
+        status: battery?.status,
+        ticketCount: total._count._all,
+        totalCost: Number(total._sum.cost ?? 0)
+      };
+    })
+    .sort((a, b) => b.totalCost - a.totalCost);
+}
+
+// Get a page of maintenance tickets for the user's branch, newest first (?status=open|closed, ?batteryId=...,
+// opened between ?startDate= and ?endDate=)
+router.get('/', requireAuth, requirePermission('battery:view'), validate(listTickets), async (req: ValidatedRequest<typeof listTickets>, res) => {
+  try {
+    const { status, batteryId } = req.query;
+    const list = toListOptions(req.query);
+    const range = toDateRange(req.query);
+
+    const where: Prisma.MaintenanceTicketWhereInput = {
+      ...(batteryId && { batteryId }),
+      ...(status === 'open' && { closedAt: null }),
+      ...(status === 'closed' && { closedAt: { not: null } }),
+      ...(range && { openedAt: range }),
+      battery: branchWhere(req)
+    };
+
+    const total = await prisma.maintenanceTicket.count({ where });
+    const tickets = await prisma.maintenanceTicket.findMany({
+      where,
+      include: {
+        battery: true
+      },
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+
+    res.json(toPage(tickets, total, list));
+  } catch (error) {
+    console.error('Error fetching maintenance tickets:', error);
+    res.status(500).json({ error: 'Failed to fetch maintenance tickets' });
+  }
+});
+
+// Maintenance cost per battery, optionally limited to tickets opened between startDate and endDate
+router.get('/report/cost-per-battery', requireAuth, requirePermission('report:view'), validate(maintenanceCostReport), async (req: ValidatedRequest<typeof maintenanceCostReport>, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+
+    const report = await getMaintenanceCostReport(branchWhere(req), startDate, endDate);
+
+    res.json({
+      batteries: report,
+      totalCost: report.reduce((sum, row) => sum + row.totalCost, 0)
+    });
+  } catch (error) {
+    console.error('Error fetching maintenance cost report:', error);
+    res.status(500).json({ error: 'Failed to fetch maintenance cost report' });
+  }
+});
+
+// Export the maintenance cost report as Excel or CSV
+router.get('/report/cost-per-battery/export', requireAuth, requirePermission('report:view'), validate(exportMaintenanceCostReport), async (req: ValidatedRequest<typeof exportMaintenanceCostReport>, res) => {
+  try {
+    const { startDate, endDate, format } = req.query;
+
+    const report = await getMaintenanceCostReport(branchWhere(req), startDate, endDate);
+
+    sendExport(res, {
+      filename: 'maintenance-cost',
+      format,
+      rows: report,
+      columns: [
+        { header: 'Battery ID', value: row => row.batteryId },
+        { header: 'Serial Number', value: row => row.serialNumber },
+        { header: 'Status', value: row => row.status },
+        { header: 'Tickets', value: row => row.ticketCount },
+        { header: 'Total Cost', value: row => row.totalCost, type: 'amount' }
+      ]
+    });
+  } catch (error) {
+    console.error('Error exporting maintenance cost report:', error);
+    res.status(500).json({ error: 'Failed to export maintenance cost report' });
+  }
+});
+
+// Get a single maintenance ticket by ID
+router.get('/:id', requireAuth, requirePermission('battery:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+    const ticket = await prisma.maintenanceTicket.findUnique({
+      where: { id },
+      include: {
+        battery: true
+      }
+    });
+
+    if (!ticket || !canAccessBranch(req, ticket.battery.branchId)) {
+      return res.status(404).json({ error: 'Maintenance ticket not found' });
+    }
+
+    res.json(ticket);
+  } catch (error) {
+    console.error('Error fetching maintenance ticket:', error);
+    res.status(500).json({ error: 'Failed to fetch maintenance ticket' });
+  }
+});
+
+// Open a maintenance ticket and move the battery to MAINTENANCE
+router.post('/', requireAuth, requirePermission('maintenance:manage'), validate(openTicket), async (req: ValidatedRequest<typeof openTicket>, res) => {
+  try {
+    const { batteryId, issue, technician, parts, cost, notes } = req.body;
+
+    const battery = await prisma.battery.findUnique({
+      where: { id: batteryId },
+      include: {
+        maintenanceTickets: {
+          where: { closedAt: null }
+        }
+      }
+    });
+
+    if (!battery || !canAccessBranch(req, battery.branchId)) {
+      return res.status(404).json({ error: 'Battery not found' });
+    }
+
+    if (battery.status === 'IN_TRANSIT') {
+      return res.status(400).json({ error: 'Battery is in transit between branches' });
+    }
+
+    if (battery.status === 'RENTED') {
+      return res.status(400).json({ error: 'Battery is currently rented. Return it before opening a maintenance ticket.' });
+    }
+
+    if (isDisposalStatus(battery.status)) {
+      return res.status(400).json({ error: `Battery has been disposed of (${battery.status})` });
+    }
+
+    if (battery.maintenanceTickets.length > 0) {
+      return res.status(400).json({ error: 'Battery already has an open maintenance ticket' });
+    }
+
+    const { maintenanceTickets, ...batteryBefore } = battery;
+    const ticket = await prisma.$transaction(async (prisma) => {
+      return openMaintenanceTicket(prisma, batteryBefore, {
+        issue,
+        technician,
+        parts,
+        cost,
+        notes
+      }, req.user);
+    });
+
+    res.status(201).json(ticket);
+  } catch (error) {
+    console.error('Error opening maintenance ticket:', error);
+    res.status(500).json({ error: 'Failed to open maintenance ticket' });
+  }
+});
+
+// Update the details of an open maintenance ticket
+router.put('/:id', requireAuth, requirePermission('maintenance:manage'), validate(updateTicket), async (req: ValidatedRequest<typeof updateTicket>, res) => {
+  try {
+    const { id } = req.params;
+    const { issue, technician, parts, cost, notes } = req.body;
+
+    const existingTicket = await prisma.maintenanceTicket.findUnique({
+      where: { id },
+      include: {
+        battery: true
+      }
+    });
+
+    if (!existingTicket || !canAccessBranch(req, existingTicket.battery.branchId)) {
+      return res.status(404).json({ error: 'Maintenance ticket not found' });
+    }
+
+    if (existingTicket.closedAt) {
+      return res.status(400).json({ error: 'Maintenance ticket is already closed' });
+    }
+
+    const updatedTicket = await prisma.$transaction(async (prisma) => {
+      const { battery, ...ticketBefore } = existingTicket;
+      const ticket = await prisma.maintenanceTicket.update({
+        where: { id },
+        data: {
+          ...(issue !== undefined && { issue }),
+          ...(technician !== undefined && { technician }),
+          ...(parts !== undefined && { parts }),
+          ...(cost !== undefined && { cost }),
+          ...(notes !== undefined && { notes })
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'MaintenanceTicket',
+        entityId: id,
+        before: ticketBefore,
+        after: ticket
+      });
+
+      return ticket;
+    });
+
+    res.json(updatedTicket);
+  } catch (error) {
+    console.error('Error updating maintenance ticket:', error);
+    res.status(500).json({ error: 'Failed to update maintenance ticket' });
+  }
+});
+
+// Close a maintenance ticket. A REPAIRED battery goes back to AVAILABLE; a RETIRED one is taken out of service.
+router.put('/:id/close', requireAuth, requirePermission('maintenance:manage'), validate(closeTicket), async (req: ValidatedRequest<typeof closeTicket>, res) => {
+  try {
+    const { id } = req.params;
+    const { outcome, technician, parts, cost, notes, closedAt } = req.body;
+
+    const existingTicket = await prisma.maintenanceTicket.findUnique({
+      where: { id },
+      include: {
+        battery: true
+      }
+    });
+
+    if (!existingTicket || !canAccessBranch(req, existingTicket.battery.branchId)) {
+      return res.status(404).json({ error: 'Maintenance ticket not found' });
+    }
+
+    if (existingTicket.closedAt) {
+      return res.status(400).json({ error: 'Maintenance ticket is already closed' });
+    }
+
+    const closeDate = closedAt ?? new Date();
+
+    const closedTicket = await prisma.$transaction(async (prisma) => {
+      const ticket = await prisma.maintenanceTicket.update({
+        where: { id },
+        data: {
+          outcome,
+          closedAt: closeDate,
+          ...(technician !== undefined && { technician }),
+          ...(parts !== undefined && { parts }),
+          ...(cost !== undefined && { cost }),
+          ...(notes !== undefined && { notes })
+        }
+      });
+
+      const updatedBattery = await prisma.battery.update({
+        where: { id: existingTicket.batteryId },
+        data: outcome === 'RETIRED'
+          ? { status: 'RETIRED', disposedAt: closeDate, disposalReason: `Retired after maintenance: ${existingTicket.issue}` }
+          : { status: 'AVAILABLE' }
+      });
+
+      const { battery, ...ticketBefore } = existingTicket;
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'MaintenanceTicket',
+        entityId: id,
+        before: ticketBefore,
+        after: ticket
+      });
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: battery.id,
+        before: battery,
+        after: updatedBattery
+      });
+
+      return ticket;
+    });
+
+    res.json(closedTicket);
+  } catch (error) {
+    console.error('Error closing maintenance ticket:', error);
+    res.status(500).json({ error: 'Failed to close maintenance ticket' });
+  }
+});
+
+export default router;
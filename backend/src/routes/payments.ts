@@ -1,23 +1,66 @@
-import express from 'express';
-import { PrismaClient } from '@prisma/client';
-import { requireAuth, requireAdmin } from '../middleware/auth';
+import express, { Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { branchWhere, canAccessBranch } from '../middleware/branches';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { updateCustomerCreditRating } from '../services/creditRating';
+import { buildPaymentReceipt } from '../services/pdf';
+import { sendExport } from '../services/export';
+import { notifyCustomer } from '../services/notifications';
+import { allocatePayment } from '../services/paymentAllocation';
+import { getRentalBalance, openBalanceWhere } from '../services/rentalBalance';
+import { recordWalletTransaction } from '../services/wallet';
+import { toDateRange, toListOptions, toPage } from '../services/listQuery';
+import { byId } from '../schemas/common';
+import {
+  allocateCustomerPayment,
+  createPayment,
+  dailyEarnings,
+  exportPaymentsByDate,
+  financialSummary,
+  listPayments,
+  monthlyEarnings,
+  paymentReversal,
+  paymentsByDate
+} from '../schemas/payments';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Get all payments
-router.get('/', requireAuth, async (req, res) => {
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Get a page of payments for the user's branch, newest first. Filters: ?paymentMethod=, ?type=,
+// ?customerId=, ?rentalId= and a payment date range (?startDate=, ?endDate=).
+router.get('/', requireAuth, requirePermission('payment:view'), validate(listPayments), async (req: ValidatedRequest<typeof listPayments>, res) => {
   try {
+    const { paymentMethod, type, customerId, rentalId } = req.query;
+    const list = toListOptions(req.query);
+    const range = toDateRange(req.query);
+
+    const where: Prisma.PaymentWhereInput = {
+      ...branchWhere(req),
+      ...(paymentMethod && { paymentMethod }),
+      ...(type && { type }),
+      ...(customerId && { customerId }),
+      ...(rentalId && { rentalId }),
+      ...(range && { paymentDate: range })
+    };
+
+    const total = await prisma.payment.count({ where });
     const payments = await prisma.payment.findMany({
+      where,
       include: {
         rental: true,
         customer: true
       },
-      orderBy: {
-        paymentDate: 'desc'
-      }
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
     });
-    res.json(payments);
+
+    res.json(toPage(payments, total, list));
   } catch (error) {
     console.error('Error fetching payments:', error);
     res.status(500).json({ error: 'Failed to fetch payments' });
@@ -25,7 +68,7 @@ router.get('/', requireAuth, async (req, res) => {
 });
 
 // Get a single payment by ID
-router.get('/:id', requireAuth, async (req, res) => {
+router.get('/:id', requireAuth, requirePermission('payment:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
   try {
     const { id } = req.params;
     const payment = await prisma.payment.findUnique({
@@ -40,7 +83,7 @@ router.get('/:id', requireAuth, async (req, res) => {
       }
     });
 
-    if (!payment) {
+    if (!payment || !canAccessBranch(req, payment.branchId)) {
       return res.status(404).json({ error: 'Payment not found' });
     }
 
@@ -51,16 +94,43 @@ router.get('/:id', requireAuth, async (req, res) => {
   }
 });
 
-// Create a new payment
-router.post('/', requireAuth, async (req, res) => {
+// Download a PDF receipt for a payment
+router.get('/:id/receipt.pdf', requireAuth, requirePermission('payment:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
   try {
-    const { rentalId, customerId, amount, paymentMethod } = req.body;
+    const { id } = req.params;
+    const payment = await prisma.payment.findUnique({
+      where: { id },
+      include: {
+        customer: true,
+        rental: {
+          include: {
+            battery: true,
+            payments: true
+          }
+        }
+      }
+    });
 
-    // Validate required fields
-    if (!rentalId || !customerId || !amount || !paymentMethod) {
-      return res.status(400).json({ error: 'Rental ID, customer ID, amount, and payment method are required' });
+    if (!payment || !canAccessBranch(req, payment.branchId)) {
+      return res.status(404).json({ error: 'Payment not found' });
     }
 
+    const pdf = buildPaymentReceipt(payment);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="receipt-${payment.id}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error generating payment receipt:', error);
+    res.status(500).json({ error: 'Failed to generate payment receipt' });
+  }
+});
+
+// Create a new payment
+router.post('/', requireAuth, requirePermission('payment:create'), validate(createPayment), async (req: ValidatedRequest<typeof createPayment>, res) => {
+  try {
+    const { rentalId, customerId, amount: received, paymentMethod } = req.body;
+
     // Check if rental exists
     const rental = await prisma.rental.findUnique({
       where: { id: rentalId },
@@ -69,7 +139,7 @@ router.post('/', requireAuth, async (req, res) => {
       }
     });
 
-    if (!rental) {
+    if (!rental || !canAccessBranch(req, rental.branchId)) {
       return res.status(404).json({ error: 'Rental not found' });
     }
 
@@ -87,10 +157,21 @@ router.post('/', requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'Customer ID does not match the rental' });
     }
 
-    // Calculate total paid amount including this payment
-    const totalPaidSoFar = rental.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-    const newTotalPaid = totalPaidSoFar + Number(amount);
-    const rentalPrice = Number(rental.rentalPrice);
+    // Only what is owed (including any late fee accrued so far) is booked against the rental;
+    // anything above that goes to the customer's wallet as credit
+    const owed = getRentalBalance({ ...rental, isPaid: false }).remainingBalance;
+
+    if (owed <= 0) {
+      return res.status(400).json({ error: 'Rental is already fully paid. Add the money to the customer\'s wallet instead.' });
+    }
+
+    const paymentAmount = Math.min(received, owed);
+    const walletCredit = Math.round((received - paymentAmount) * 100) / 100;
+    const balanceAfter = getRentalBalance({
+      ...rental,
+      isPaid: false,
+      payments: [...rental.payments, { amount: paymentAmount }]
+    });
 
     // Create payment and update rental payment status if fully paid
     const result = await prisma.$transaction(async (prisma) => {
@@ -99,69 +180,302 @@ router.post('/', requireAuth, async (req, res) => {
         data: {
           rentalId,
           customerId,
-          amount: parseFloat(amount),
+          // Money is booked at the branch that took it
+          branchId: req.user?.branchId ?? rental.branchId,
+          amount: paymentAmount,
           paymentMethod
         }
       });
 
+      if (walletCredit > 0) {
+        await recordWalletTransaction(prisma, {
+          customerId,
+          type: 'OVERPAYMENT',
+          amount: walletCredit,
+          paymentMethod,
+          rentalId,
+          paymentId: payment.id,
+          branchId: payment.branchId,
+          actor: req.user
+        });
+      }
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'Payment',
+        entityId: payment.id,
+        after: payment
+      });
+
       // Update rental payment status if fully paid
-      if (newTotalPaid >= rentalPrice) {
-        await prisma.rental.update({
+      if (balanceAfter.remainingBalance === 0 && !rental.isPaid) {
+        const paidRental = await prisma.rental.update({
           where: { id: rentalId },
           data: { isPaid: true }
         });
+
+        const { payments, ...rentalBefore } = rental;
+        await recordAudit(prisma, {
+          actor: req.user,
+          action: 'UPDATE',
+          entityType: 'Rental',
+          entityId: rentalId,
+          before: rentalBefore,
+          after: paidRental
+        });
       }
 
       return payment;
     });
 
     // Update customer credit rating based on payment
-    await updateCustomerCreditRating(customerId);
+    await updateCustomerCreditRating(prisma, customerId, req.user);
+
+    void notifyCustomer({
+      customer,
+      template: 'PAYMENT_RECORDED',
+      rentalId,
+      paymentId: result.id,
+      data: {
+        customerName: customer.name,
+        amount: received,
+        paymentMethod: result.paymentMethod,
+        remainingBalance: balanceAfter.remainingBalance
+      }
+    });
 
-    res.status(201).json(result);
+    res.status(201).json({
+      ...result,
+      walletCredit
+    });
   } catch (error) {
     console.error('Error creating payment:', error);
     res.status(500).json({ error: 'Failed to create payment' });
   }
 });
 
-// Get payments by date range
-router.get('/filter/by-date', requireAuth, async (req, res) => {
+// Record one payment from a customer and split it across their unpaid rentals, oldest first
+// unless `allocations` ([{ rentalId, amount }]) says otherwise. Anything left over goes to the wallet.
+router.post('/allocate', requireAuth, requirePermission('payment:create'), validate(allocateCustomerPayment), async (req: ValidatedRequest<typeof allocateCustomerPayment>, res) => {
   try {
-    const { startDate, endDate } = req.query;
+    const { customerId, amount: received, paymentMethod, allocations: instructions } = req.body;
 
-    if (!startDate || !endDate) {
-      return res.status(400).json({ error: 'Start date and end date are required' });
+    const customer = await prisma.customer.findUnique({
+      where: { id: customerId }
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
     }
 
-    const payments = await prisma.payment.findMany({
-      where: {
-        paymentDate: {
-          gte: new Date(startDate as string),
-          lte: new Date(endDate as string)
+    const rentals = await prisma.rental.findMany({
+      where: { customerId, ...openBalanceWhere, ...branchWhere(req) },
+      include: { payments: true },
+      orderBy: { rentDate: 'asc' }
+    });
+
+    // What each rental still owes before this payment
+    const openRentals = rentals
+      .map(rental => ({
+        rental,
+        rentalId: rental.id,
+        rentDate: rental.rentDate,
+        owed: getRentalBalance({ ...rental, isPaid: false }).remainingBalance
+      }))
+      .filter(rental => rental.owed > 0);
+
+    if (openRentals.length === 0) {
+      return res.status(400).json({ error: 'Customer has no unpaid rentals. Add the money to the customer\'s wallet instead.' });
+    }
+
+    for (const instruction of instructions) {
+      const open = openRentals.find(rental => rental.rentalId === instruction.rentalId);
+      if (!open) {
+        return res.status(400).json({ error: `Rental ${instruction.rentalId} is not an unpaid rental of this customer` });
+      }
+      if (instruction.amount > open.owed) {
+        return res.status(400).json({ error: `Allocation for rental ${open.rentalId} exceeds what it owes (${open.owed.toFixed(2)})` });
+      }
+    }
+
+    const { allocations, unallocated } = allocatePayment(received, openRentals, instructions);
+
+    // Create the payments and mark settled rentals paid in one transaction
+    const result = await prisma.$transaction(async (prisma) => {
+      const breakdown = [];
+
+      for (const allocation of allocations) {
+        const { rental } = allocation.rental;
+
+        const payment = await prisma.payment.create({
+          data: {
+            rentalId: rental.id,
+            customerId,
+            branchId: req.user?.branchId ?? rental.branchId,
+            amount: allocation.amount,
+            paymentMethod
+          }
+        });
+
+        await recordAudit(prisma, {
+          actor: req.user,
+          action: 'CREATE',
+          entityType: 'Payment',
+          entityId: payment.id,
+          after: payment
+        });
+
+        const remainingBalance = Math.max(Math.round((allocation.owed - allocation.amount) * 100) / 100, 0);
+        if (remainingBalance === 0 && !rental.isPaid) {
+          const paidRental = await prisma.rental.update({
+            where: { id: rental.id },
+            data: { isPaid: true }
+          });
+
+          const { payments, ...rentalBefore } = rental;
+          await recordAudit(prisma, {
+            actor: req.user,
+            action: 'UPDATE',
+            entityType: 'Rental',
+            entityId: rental.id,
+            before: rentalBefore,
+            after: paidRental
+          });
         }
-      },
-      include: {
-        rental: true,
-        customer: true
-      },
-      orderBy: {
-        paymentDate: 'desc'
+
+        breakdown.push({
+          rentalId: rental.id,
+          rentDate: rental.rentDate,
+          owedBefore: allocation.owed,
+          amount: allocation.amount,
+          remainingBalance,
+          isPaid: rental.isPaid || remainingBalance === 0,
+          payment
+        });
+      }
+
+      if (unallocated > 0) {
+        await recordWalletTransaction(prisma, {
+          customerId,
+          type: 'OVERPAYMENT',
+          amount: unallocated,
+          paymentMethod,
+          branchId: req.user?.branchId ?? rentals[0].branchId,
+          note: 'Left over after allocating a payment across rentals',
+          actor: req.user
+        });
+      }
+
+      return breakdown;
+    });
+
+    // Update customer credit rating based on payment
+    await updateCustomerCreditRating(prisma, customerId, req.user);
+
+    const remainingBalance = openRentals.reduce((sum, rental) => {
+      const allocation = result.find(entry => entry.rentalId === rental.rentalId);
+      return sum + (allocation ? allocation.remainingBalance : rental.owed);
+    }, 0);
+
+    void notifyCustomer({
+      customer,
+      template: 'PAYMENT_RECORDED',
+      data: {
+        customerName: customer.name,
+        amount: received,
+        paymentMethod,
+        remainingBalance: Math.round(remainingBalance * 100) / 100
       }
     });
 
-    res.json(payments);
+    res.status(201).json({
+      customerId,
+      amount: received,
+      paymentMethod,
+      allocations: result,
+      walletCredit: unallocated,
+      remainingBalance: Math.round(remainingBalance * 100) / 100
+    });
+  } catch (error) {
+    console.error('Error allocating payment:', error);
+    res.status(500).json({ error: 'Failed to allocate payment' });
+  }
+});
+
+// Refund part or all of a payment. Creates a negative REFUND entry; the original row is never changed.
+router.post('/:id/refund', requireAuth, requirePermission('payment:refund'), validate(paymentReversal), async (req: ValidatedRequest<typeof paymentReversal>, res) => {
+  await reversePayment(req, res, 'REFUND');
+});
+
+// Void a payment recorded by mistake. Creates a negative VOID entry for whatever has not been reversed yet.
+router.post('/:id/void', requireAuth, requirePermission('payment:refund'), validate(paymentReversal), async (req: ValidatedRequest<typeof paymentReversal>, res) => {
+  await reversePayment(req, res, 'VOID');
+});
+
+// Get a page of payments by date range
+router.get('/filter/by-date', requireAuth, requirePermission('payment:view'), validate(paymentsByDate), async (req: ValidatedRequest<typeof paymentsByDate>, res) => {
+  try {
+    const { startDate, endDate } = req.query;
+    const list = toListOptions(req.query);
+    const where = paymentsByDateWhere(startDate, endDate, branchWhere(req));
+
+    const total = await prisma.payment.count({ where });
+    const payments = await prisma.payment.findMany({
+      where,
+      include: paymentsByDateInclude,
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+
+    res.json(toPage(payments, total, list));
   } catch (error) {
     console.error('Error fetching payments by date:', error);
     res.status(500).json({ error: 'Failed to fetch payments by date' });
   }
 });
 
+// Export payments by date range as Excel or CSV
+router.get('/filter/by-date/export', requireAuth, requirePermission('payment:view'), validate(exportPaymentsByDate), async (req: ValidatedRequest<typeof exportPaymentsByDate>, res) => {
+  try {
+    const { startDate, endDate, format } = req.query;
+
+    const payments = await prisma.payment.findMany({
+      where: paymentsByDateWhere(startDate, endDate, branchWhere(req)),
+      include: paymentsByDateInclude,
+      orderBy: {
+        paymentDate: 'desc'
+      }
+    });
+
+    sendExport(res, {
+      filename: `payments-${formatDate(startDate)}-to-${formatDate(endDate)}`,
+      format,
+      rows: payments,
+      columns: [
+        { header: 'Payment ID', value: payment => payment.id },
+        { header: 'Payment Date', value: payment => payment.paymentDate, type: 'date' },
+        { header: 'Customer', value: payment => payment.customer.name },
+        { header: 'Phone Number', value: payment => payment.customer.phoneNumber },
+        { header: 'Rental ID', value: payment => payment.rentalId },
+        { header: 'Battery Serial Number', value: payment => payment.rental.battery.serialNumber },
+        { header: 'Type', value: payment => payment.type },
+        { header: 'Payment Method', value: payment => payment.paymentMethod },
+        { header: 'Amount', value: payment => payment.amount, type: 'amount' },
+        { header: 'Reason', value: payment => payment.reason }
+      ]
+    });
+  } catch (error) {
+    console.error('Error exporting payments by date:', error);
+    res.status(500).json({ error: 'Failed to export payments by date' });
+  }
+});
+
 // Get daily earnings
-router.get('/summary/daily', requireAuth, async (req, res) => {
+router.get('/summary/daily', requireAuth, requirePermission('report:view'), validate(dailyEarnings), async (req: ValidatedRequest<typeof dailyEarnings>, res) => {
   try {
-    const { date } = req.query;
-    const targetDate = date ? new Date(date as string) : new Date();
+    const targetDate = req.query.date ?? new Date();
     
     // Set time to start of day
     const startDate = new Date(targetDate);
@@ -176,13 +490,12 @@ router.get('/summary/daily', requireAuth, async (req, res) => {
         paymentDate: {
           gte: startDate,
           lte: endDate
-        }
+        },
+        ...branchWhere(req)
       }
     });
 
-    const totalEarned = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-
-    res.json({ date: targetDate, totalEarned });
+    res.json({ date: targetDate, ...summarizePayments(payments) });
   } catch (error) {
     console.error('Error fetching daily earnings:', error);
     res.status(500).json({ error: 'Failed to fetch daily earnings' });
@@ -190,13 +503,13 @@ router.get('/summary/daily', requireAuth, async (req, res) => {
 });
 
 // Get monthly earnings
-router.get('/summary/monthly', requireAuth, async (req, res) => {
+router.get('/summary/monthly', requireAuth, requirePermission('report:view'), validate(monthlyEarnings), async (req: ValidatedRequest<typeof monthlyEarnings>, res) => {
   try {
     const { year, month } = req.query;
     
     const now = new Date();
-    const targetYear = year ? parseInt(year as string) : now.getFullYear();
-    const targetMonth = month ? parseInt(month as string) - 1 : now.getMonth(); // JS months are 0-indexed
+    const targetYear = year ?? now.getFullYear();
+    const targetMonth = month !== undefined ? month - 1 : now.getMonth(); // JS months are 0-indexed
     
     // Start of month
     const startDate = new Date(targetYear, targetMonth, 1);
@@ -209,16 +522,15 @@ router.get('/summary/monthly', requireAuth, async (req, res) => {
         paymentDate: {
           gte: startDate,
           lte: endDate
-        }
+        },
+        ...branchWhere(req)
       }
     });
 
-    const totalEarned = payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-
     res.json({ 
       year: targetYear, 
       month: targetMonth + 1, 
-      totalEarned 
+      ...summarizePayments(payments)
     });
   } catch (error) {
     console.error('Error fetching monthly earnings:', error);
@@ -226,9 +538,11 @@ router.get('/summary/monthly', requireAuth, async (req, res) => {
   }
 });
 
-// Get financial summary
-router.get('/summary/financial', requireAuth, async (req, res) => {
+// Get financial summary for the user's branch
+router.get('/summary/financial', requireAuth, requirePermission('report:view'), validate(financialSummary), async (req: ValidatedRequest<typeof financialSummary>, res) => {
   try {
+    const branch = branchWhere(req);
+
     // Get today's date
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -246,7 +560,8 @@ router.get('/summary/financial', requireAuth, async (req, res) => {
         paymentDate: {
           gte: today,
           lte: endOfDay
-        }
+        },
+        ...branch
       }
     });
     const earnedToday = todayPayments.reduce((sum, payment) => sum + Number(payment.amount), 0);
@@ -257,31 +572,58 @@ router.get('/summary/financial', requireAuth, async (req, res) => {
         paymentDate: {
           gte: startOfMonth,
           lte: endOfDay
-        }
+        },
+        ...branch
       }
     });
     const earnedThisMonth = monthPayments.reduce((sum, payment) => sum + Number(payment.amount), 0);
 
-    // Get total due across customers
-    const unpaidRentals = await prisma.rental.findMany({
-      where: {
-        isPaid: false
-      },
+    // Get total due across customers, including accrued late fees
+    const openRentals = await prisma.rental.findMany({
+      where: { ...openBalanceWhere, ...branch },
       include: {
         payments: true
       }
     });
 
-    let totalDue = 0;
-    unpaidRentals.forEach(rental => {
-      const paidAmount = rental.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-      totalDue += Number(rental.rentalPrice) - paidAmount;
+    const totalDue = openRentals.reduce((sum, rental) => sum + getRentalBalance(rental).remainingBalance, 0);
+
+    // Deposits still held belong to customers, so they are reported apart from earnings.
+    // Applied deposits already count as earnings through their payment rows.
+    const heldDeposits = await prisma.rental.aggregate({
+      where: { depositStatus: 'HELD', ...branch },
+      _sum: { depositAmount: true },
+      _count: true
+    });
+    const forfeitedDeposits = await prisma.rental.aggregate({
+      where: {
+        depositStatus: 'FORFEITED',
+        depositSettledAt: {
+          gte: startOfMonth,
+          lte: endOfDay
+        },
+        ...branch
+      },
+      _sum: { depositAmount: true }
+    });
+
+    // Unused wallet credit is owed back to customers, not earned. Each ledger entry counts
+    // toward the branch where the credit was taken in or used.
+    const walletCredit = await prisma.walletTransaction.aggregate({
+      where: branch,
+      _sum: { amount: true }
     });
 
     res.json({
       earnedToday,
       earnedThisMonth,
-      totalDue
+      totalDue,
+      customerCredit: Number(walletCredit._sum.amount ?? 0),
+      deposits: {
+        held: Number(heldDeposits._sum.depositAmount ?? 0),
+        heldCount: heldDeposits._count,
+        forfeitedThisMonth: Number(forfeitedDeposits._sum.depositAmount ?? 0)
+      }
     });
   } catch (error) {
     console.error('Error fetching financial summary:', error);
@@ -289,52 +631,163 @@ router.get('/summary/financial', requireAuth, async (req, res) => {
   }
 });
 
-// Helper function to update customer credit rating
-async function updateCustomerCreditRating(customerId: string) {
+// Helper function to total payments; refunds and voids are negative, so the net total nets them out
+function summarizePayments(payments: { amount: Prisma.Decimal; type: string }[]) {
+  const grossEarned = payments
+    .filter(payment => payment.type === 'PAYMENT')
+    .reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const totalReversed = payments
+    .filter(payment => payment.type !== 'PAYMENT')
+    .reduce((sum, payment) => sum - Number(payment.amount), 0);
+
+  return {
+    grossEarned,
+    totalReversed,
+    totalEarned: grossEarned - totalReversed
+  };
+}
+
+// Helper function behind the refund and void routes
+async function reversePayment(req: ValidatedRequest<typeof paymentReversal>, res: Response, type: 'REFUND' | 'VOID') {
   try {
-    // Get all rentals for the customer
-    const customerRentals = await prisma.rental.findMany({
-      where: { customerId },
-      include: { payments: true }
+    const { id } = req.params;
+    const { amount, reason, paymentMethod } = req.body;
+
+    const original = await prisma.payment.findUnique({
+      where: { id },
+      include: {
+        rental: true
+      }
     });
 
-    // Calculate credit rating based on payment history and return timeliness
-    let totalPoints = 0;
-    let totalRentals = customerRentals.length;
+    if (!original || !canAccessBranch(req, original.branchId)) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    if (original.type !== 'PAYMENT') {
+      return res.status(400).json({ error: 'Refund and void entries cannot be reversed' });
+    }
 
-    if (totalRentals === 0) return;
+    const { rental } = original;
+    const result = await prisma.$transaction(async (prisma) => {
+      // Lock the original payment so concurrent refunds and voids of it are checked one at a time
+      await prisma.$queryRaw`SELECT id FROM payments WHERE id = ${original.id} FOR UPDATE`;
 
-    customerRentals.forEach(rental => {
-      // Points for payment (0-2)
-      if (rental.isPaid) {
-        totalPoints += 2;
-      } else if (rental.payments.length > 0) {
-        // Partial payment
-        totalPoints += 1;
+      // Only the part of the payment that has not already been refunded or voided can be reversed
+      const reversed = await prisma.payment.aggregate({
+        where: { reversesPaymentId: original.id },
+        _sum: { amount: true }
+      });
+      const reversible = Math.round((Number(original.amount) + Number(reversed._sum.amount ?? 0)) * 100) / 100;
+
+      if (reversible <= 0) {
+        return { error: 'Payment has already been fully reversed' };
       }
 
-      // Points for timely return (0-1)
-      if (rental.returnDate) {
-        const rentDuration = Math.floor((new Date(rental.returnDate).getTime() - new Date(rental.rentDate).getTime()) / (1000 * 60 * 60 * 24));
-        // Assuming a standard rental period of 7 days
-        if (rentDuration <= 7) {
-          totalPoints += 1;
+      let reverseAmount = reversible;
+      if (type === 'REFUND' && amount !== undefined) {
+        if (amount > reversible) {
+          return { error: `Refund amount must be between 0 and ${reversible.toFixed(2)}` };
         }
+        reverseAmount = amount;
       }
-    });
 
-    // Calculate average points (0-3) and scale to 0-5 rating
-    const avgPoints = totalPoints / (totalRentals * 3);
-    const creditRating = Math.round(avgPoints * 5);
+      // Money paid from the wallet goes back to the wallet
+      const fromWallet = original.paymentMethod === 'WALLET';
 
-    // Update customer credit rating
-    await prisma.customer.update({
-      where: { id: customerId },
-      data: { creditRating }
+      const reversal = await prisma.payment.create({
+        data: {
+          rentalId: original.rentalId,
+          customerId: original.customerId,
+          branchId: original.branchId,
+          amount: -reverseAmount,
+          paymentMethod: fromWallet ? 'WALLET' : paymentMethod || original.paymentMethod,
+          type,
+          reversesPaymentId: original.id,
+          reason: reason
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'Payment',
+        entityId: reversal.id,
+        after: reversal
+      });
+
+      if (fromWallet) {
+        await recordWalletTransaction(prisma, {
+          customerId: original.customerId,
+          type: 'REVERSAL',
+          amount: reverseAmount,
+          rentalId: original.rentalId,
+          paymentId: reversal.id,
+          branchId: reversal.branchId,
+          note: reason,
+          actor: req.user
+        });
+      }
+
+      // Recompute the rental's paid flag from the remaining payments
+      const balance = getRentalBalance({
+        ...rental,
+        isPaid: false,
+        payments: await prisma.payment.findMany({ where: { rentalId: rental.id } })
+      });
+      const isPaid = balance.remainingBalance === 0;
+
+      if (isPaid !== rental.isPaid) {
+        const updatedRental = await prisma.rental.update({
+          where: { id: rental.id },
+          data: { isPaid }
+        });
+
+        await recordAudit(prisma, {
+          actor: req.user,
+          action: 'UPDATE',
+          entityType: 'Rental',
+          entityId: rental.id,
+          before: rental,
+          after: updatedRental
+        });
+      }
+
+      return { reversal };
     });
+
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    // Update customer credit rating now that the payment no longer counts
+    await updateCustomerCreditRating(prisma, original.customerId, req.user);
+
+    res.status(201).json(result.reversal);
   } catch (error) {
-    console.error('Error updating customer credit rating:', error);
+    console.error(`Error recording payment ${type.toLowerCase()}:`, error);
+    res.status(500).json({ error: `Failed to record payment ${type.toLowerCase()}` });
   }
 }
 
+const paymentsByDateInclude = {
+  rental: {
+    include: {
+      battery: true
+    }
+  },
+  customer: true
+} satisfies Prisma.PaymentInclude;
+
+// Helper function to filter payments to a payment date range
+function paymentsByDateWhere(startDate: Date, endDate: Date, branch: Prisma.PaymentWhereInput): Prisma.PaymentWhereInput {
+  return {
+    paymentDate: {
+      gte: startDate,
+      lte: endDate
+    },
+    ...branch
+  };
+}
+
 export default router;
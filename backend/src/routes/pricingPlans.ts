@@ -0,0 +1,229 @@
+import express from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { toListOptions, toPage } from '../services/listQuery';
+import { calculateRentalPrice } from '../services/pricing';
+import { byId } from '../schemas/common';
+import { createPricingPlan, listPricingPlans, quotePricingPlan, updatePricingPlan } from '../schemas/pricingPlans';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Get a page of pricing plans (active only unless ?includeInactive=true)
+router.get('/', requireAuth, requirePermission('rental:view'), validate(listPricingPlans), async (req: ValidatedRequest<typeof listPricingPlans>, res) => {
+  try {
+    const list = toListOptions(req.query);
+    const where: Prisma.PricingPlanWhereInput = req.query.includeInactive ? {} : { isActive: true };
+
+    const total = await prisma.pricingPlan.count({ where });
+    const plans = await prisma.pricingPlan.findMany({
+      where,
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+    res.json(toPage(plans, total, list));
+  } catch (error) {
+    console.error('Error fetching pricing plans:', error);
+    res.status(500).json({ error: 'Failed to fetch pricing plans' });
+  }
+});
+
+// Get a single pricing plan by ID
+router.get('/:id', requireAuth, requirePermission('rental:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+    const plan = await prisma.pricingPlan.findUnique({
+      where: { id }
+    });
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Pricing plan not found' });
+    }
+
+    res.json(plan);
+  } catch (error) {
+    console.error('Error fetching pricing plan:', error);
+    res.status(500).json({ error: 'Failed to fetch pricing plan' });
+  }
+});
+
+// Quote a price under a plan for a given period, e.g. to show the customer before renting
+router.get('/:id/quote', requireAuth, requirePermission('rental:view'), validate(quotePricingPlan), async (req: ValidatedRequest<typeof quotePricingPlan>, res) => {
+  try {
+    const { id } = req.params;
+    const { startDate, endDate, chargeCount } = req.query;
+
+    const plan = await prisma.pricingPlan.findUnique({
+      where: { id }
+    });
+
+    if (!plan) {
+      return res.status(404).json({ error: 'Pricing plan not found' });
+    }
+
+    const breakdown = calculateRentalPrice(plan, startDate, endDate, chargeCount);
+
+    res.json(breakdown);
+  } catch (error) {
+    console.error('Error quoting pricing plan:', error);
+    res.status(500).json({ error: 'Failed to quote pricing plan' });
+  }
+});
+
+// Add a new pricing plan
+router.post('/', requireAuth, requirePermission('pricing:manage'), validate(createPricingPlan), async (req: ValidatedRequest<typeof createPricingPlan>, res) => {
+  try {
+    const { name, ...rates } = req.body;
+
+    // Check if a plan with this name already exists
+    const existingPlan = await prisma.pricingPlan.findUnique({
+      where: { name }
+    });
+
+    if (existingPlan) {
+      return res.status(400).json({ error: 'Pricing plan with this name already exists' });
+    }
+
+    const newPlan = await prisma.$transaction(async (prisma) => {
+      const plan = await prisma.pricingPlan.create({
+        data: {
+          name,
+          dailyRate: rates.dailyRate,
+          weeklyRate: rates.weeklyRate,
+          perChargeRate: rates.perChargeRate,
+          minimumCharge: rates.minimumCharge ?? 0
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'PricingPlan',
+        entityId: plan.id,
+        after: plan
+      });
+
+      return plan;
+    });
+
+    res.status(201).json(newPlan);
+  } catch (error) {
+    console.error('Error creating pricing plan:', error);
+    res.status(500).json({ error: 'Failed to create pricing plan' });
+  }
+});
+
+// Update a pricing plan. Changes apply to rentals returned after the update.
+router.put('/:id', requireAuth, requirePermission('pricing:manage'), validate(updatePricingPlan), async (req: ValidatedRequest<typeof updatePricingPlan>, res) => {
+  try {
+    const { id } = req.params;
+    const { name, isActive, ...rates } = req.body;
+
+    // Check if plan exists
+    const existingPlan = await prisma.pricingPlan.findUnique({
+      where: { id }
+    });
+
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Pricing plan not found' });
+    }
+
+    const merged = { ...existingPlan, ...rates };
+    if (merged.dailyRate === null && merged.weeklyRate === null && merged.perChargeRate === null) {
+      return res.status(400).json({ error: 'At least one of daily, weekly or per-charge rate is required' });
+    }
+
+    // If name is being changed, check if it's unique
+    if (name && name !== existingPlan.name) {
+      const duplicateName = await prisma.pricingPlan.findUnique({
+        where: { name }
+      });
+
+      if (duplicateName) {
+        return res.status(400).json({ error: 'Pricing plan with this name already exists' });
+      }
+    }
+
+    const updatedPlan = await prisma.$transaction(async (prisma) => {
+      const plan = await prisma.pricingPlan.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && { name }),
+          ...rates,
+          ...(isActive !== undefined && { isActive })
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'PricingPlan',
+        entityId: id,
+        before: existingPlan,
+        after: plan
+      });
+
+      return plan;
+    });
+
+    res.json(updatedPlan);
+  } catch (error) {
+    console.error('Error updating pricing plan:', error);
+    res.status(500).json({ error: 'Failed to update pricing plan' });
+  }
+});
+
+// Delete a pricing plan
+router.delete('/:id', requireAuth, requirePermission('pricing:manage'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    // Check if plan exists
+    const existingPlan = await prisma.pricingPlan.findUnique({
+      where: { id },
+      include: {
+        _count: {
+          select: { rentals: true }
+        }
+      }
+    });
+
+    if (!existingPlan) {
+      return res.status(404).json({ error: 'Pricing plan not found' });
+    }
+
+    // Check if plan has been used by any rental
+    if (existingPlan._count.rentals > 0) {
+      return res.status(400).json({
+        error: 'Cannot delete pricing plan used by rentals. Consider deactivating it instead.'
+      });
+    }
+
+    await prisma.$transaction(async (prisma) => {
+      const { _count, ...plan } = existingPlan;
+
+      await prisma.pricingPlan.delete({
+        where: { id }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'DELETE',
+        entityType: 'PricingPlan',
+        entityId: id,
+        before: plan
+      });
+    });
+
+    res.json({ message: 'Pricing plan deleted successfully' });
+  } catch (error) {
+    console.error('Error deleting pricing plan:', error);
+    res.status(500).json({ error: 'Failed to delete pricing plan' });
+  }
+});
+
+export default router;
@@ -1,24 +1,72 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
-import { requireAuth, requireAdmin } from '../middleware/auth';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { hasPermission, requirePermission } from '../middleware/permissions';
+import { branchWhere, canAccessBranch } from '../middleware/branches';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { updateCustomerCreditRating } from '../services/creditRating';
+import { buildRentalAgreement } from '../services/pdf';
+import { sendExport } from '../services/export';
+import { notifyCustomer } from '../services/notifications';
+import { recordHealthReading } from '../services/batteryHealth';
+import { applyWalletCredit, isWalletAutoApplyEnabled, recordWalletTransaction } from '../services/wallet';
+import { computeDueDate, getLateFeeRules, getRentalBalance } from '../services/rentalBalance';
+import { calculateRentalPrice, PriceBreakdown } from '../services/pricing';
+import { DepositSettlement, getRequiredDeposit, settleDeposit } from '../services/deposits';
+import { checkRentalEligibility } from '../services/eligibility';
+import { toDateRange, toListOptions, toPage } from '../services/listQuery';
+import { byId } from '../schemas/common';
+import {
+  activeRentals,
+  createRental,
+  exportRentalsByDate,
+  listRentals,
+  overdueRentals,
+  rentalsByDate,
+  returnRental,
+  updateRentalPayment
+} from '../schemas/rentals';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Get all rentals
-router.get('/', requireAuth, async (req, res) => {
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Get a page of rentals for the user's branch, newest first. Filters: ?isPaid=, ?status=active|returned,
+// ?customerId=, ?batteryId= and a rent date range (?startDate=, ?endDate=).
+router.get('/', requireAuth, requirePermission('rental:view'), validate(listRentals), async (req: ValidatedRequest<typeof listRentals>, res) => {
   try {
+    const { isPaid, status, customerId, batteryId } = req.query;
+    const list = toListOptions(req.query);
+    const range = toDateRange(req.query);
+
+    const where: Prisma.RentalWhereInput = {
+      ...branchWhere(req),
+      ...(isPaid !== undefined && { isPaid }),
+      ...(status === 'active' && { returnDate: null }),
+      ...(status === 'returned' && { returnDate: { not: null } }),
+      ...(customerId && { customerId }),
+      ...(batteryId && { batteryId }),
+      ...(range && { rentDate: range })
+    };
+
+    const total = await prisma.rental.count({ where });
     const rentals = await prisma.rental.findMany({
+      where,
       include: {
         battery: true,
         customer: true,
         payments: true
       },
-      orderBy: {
-        rentDate: 'desc'
-      }
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
     });
-    res.json(rentals);
+
+    res.json(toPage(rentals, total, list));
   } catch (error) {
     console.error('Error fetching rentals:', error);
     res.status(500).json({ error: 'Failed to fetch rentals' });
@@ -26,7 +74,7 @@ router.get('/', requireAuth, async (req, res) => {
 });
 
 // Get a single rental by ID
-router.get('/:id', requireAuth, async (req, res) => {
+router.get('/:id', requireAuth, requirePermission('rental:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
   try {
     const { id } = req.params;
     const rental = await prisma.rental.findUnique({
@@ -38,17 +86,14 @@ router.get('/:id', requireAuth, async (req, res) => {
       }
     });
 
-    if (!rental) {
+    if (!rental || !canAccessBranch(req, rental.branchId)) {
       return res.status(404).json({ error: 'Rental not found' });
     }
 
-    // Calculate remaining balance
-    const totalPaid = rental.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
-    const remainingBalance = Number(rental.rentalPrice) - totalPaid;
-
+    // Calculate remaining balance, including any late fee
     const rentalWithBalance = {
       ...rental,
-      remainingBalance
+      ...getRentalBalance(rental)
     };
 
     res.json(rentalWithBalance);
@@ -58,14 +103,66 @@ router.get('/:id', requireAuth, async (req, res) => {
   }
 });
 
+// Download the PDF rental agreement
+router.get('/:id/agreement.pdf', requireAuth, requirePermission('rental:view'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+    const rental = await prisma.rental.findUnique({
+      where: { id },
+      include: {
+        battery: true,
+        customer: true
+      }
+    });
+
+    if (!rental || !canAccessBranch(req, rental.branchId)) {
+      return res.status(404).json({ error: 'Rental not found' });
+    }
+
+    const pdf = buildRentalAgreement(rental);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="agreement-${rental.id}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error('Error generating rental agreement:', error);
+    res.status(500).json({ error: 'Failed to generate rental agreement' });
+  }
+});
+
 // Create a new rental (rent a battery)
-router.post('/', requireAuth, async (req, res) => {
+router.post('/', requireAuth, requirePermission('rental:create'), validate(createRental), async (req: ValidatedRequest<typeof createRental>, res) => {
   try {
-    const { batteryId, customerId, rentalPrice, isPaid } = req.body;
+    const { batteryId, customerId, rentalPrice, pricingPlanId, isPaid, rentalPeriodDays, dueDate, depositAmount, depositMethod, eligibilityOverrideReason } = req.body;
+
+    // Marking a rental paid without a payment needs its own permission
+    if (isPaid !== undefined && !hasPermission(req.user, 'rental:mark-paid')) {
+      return res.status(403).json({ error: 'Unauthorized: missing permission rental:mark-paid' });
+    }
+
+    // Renting despite failed eligibility rules needs its own permission
+    if (eligibilityOverrideReason !== undefined && !hasPermission(req.user, 'rental:override-eligibility')) {
+      return res.status(403).json({ error: 'Unauthorized: missing permission rental:override-eligibility' });
+    }
 
-    // Validate required fields
-    if (!batteryId || !customerId || !rentalPrice) {
-      return res.status(400).json({ error: 'Battery ID, customer ID, and rental price are required' });
+    // The due date comes from an explicit date, a per-rental period, or the configured default period
+    const rentDate = new Date();
+    const rentalDueDate = dueDate ?? computeDueDate(rentDate, rentalPeriodDays);
+
+    // With a pricing plan, the initial price is a quote for the agreed period; the final price is set at return
+    let initialPrice = rentalPrice ?? 0;
+    if (pricingPlanId) {
+      const plan = await prisma.pricingPlan.findUnique({
+        where: { id: pricingPlanId }
+      });
+
+      if (!plan || !plan.isActive) {
+        return res.status(404).json({ error: 'Pricing plan not found' });
+      }
+
+      if (rentalPrice === undefined) {
+        initialPrice = calculateRentalPrice(plan, rentDate, rentalDueDate).total;
+      }
     }
 
     // Check if battery exists and is available
@@ -73,10 +170,14 @@ router.post('/', requireAuth, async (req, res) => {
       where: { id: batteryId }
     });
 
-    if (!battery) {
+    if (!battery || !canAccessBranch(req, battery.branchId)) {
       return res.status(404).json({ error: 'Battery not found' });
     }
 
+    if (battery.archivedAt) {
+      return res.status(400).json({ error: 'Battery is archived' });
+    }
+
     if (battery.status !== 'AVAILABLE') {
       return res.status(400).json({ error: 'Battery is not available for rent' });
     }
@@ -90,25 +191,113 @@ router.post('/', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Customer not found' });
     }
 
+    // Archived customers cannot rent, even with an override; restore them first
+    if (customer.archivedAt) {
+      return res.status(400).json({ error: 'Customer is archived. Restore the customer before renting to them.' });
+    }
+
+    // Blacklisted customers, and those over their rental or dues limits, need an explicit override
+    const eligibility = await checkRentalEligibility(prisma, customer);
+    const failedRules = eligibility.checks.filter(check => !check.passed);
+    if (!eligibility.eligible && !eligibilityOverrideReason) {
+      return res.status(400).json({
+        error: 'Customer is not eligible to rent: ' + failedRules.map(check => check.message).join('; '),
+        eligibility
+      });
+    }
+
+    // Customers with a low credit rating must leave a security deposit
+    const deposit = depositAmount ?? 0;
+    const requiredDeposit = getRequiredDeposit(customer.creditRating, Number(battery.price));
+    if (deposit < requiredDeposit) {
+      return res.status(400).json({
+        error: `A security deposit of at least ${requiredDeposit.toFixed(2)} is required for this customer`,
+        requiredDeposit
+      });
+    }
+
     // Create rental and update battery status in a transaction
     const result = await prisma.$transaction(async (prisma) => {
+      // Claim the battery only if it is still available, so two staff cannot rent it out at once
+      const claimed = await prisma.battery.updateMany({
+        where: { id: batteryId, status: 'AVAILABLE', archivedAt: null },
+        data: { status: 'RENTED' }
+      });
+      if (claimed.count !== 1) {
+        return null;
+      }
+
       // Create the rental
       const rental = await prisma.rental.create({
         data: {
           batteryId,
           customerId,
-          rentalPrice: parseFloat(rentalPrice),
-          isPaid: isPaid || false
+          branchId: battery.branchId,
+          rentalPrice: initialPrice,
+          pricingPlanId,
+          isPaid: isPaid || false,
+          rentDate,
+          dueDate: rentalDueDate,
+          ...(!eligibility.eligible && {
+            eligibilityOverride: {
+              reason: eligibilityOverrideReason,
+              failedRules: failedRules.map(check => check.rule),
+              overriddenBy: req.user?.email ?? null
+            }
+          }),
+          ...(deposit > 0 && {
+            depositAmount: deposit,
+            depositMethod,
+            depositStatus: 'HELD'
+          })
         }
       });
 
-      // Update battery status to RENTED
-      await prisma.battery.update({
-        where: { id: batteryId },
-        data: { status: 'RENTED' }
+      const rentedBattery = await prisma.battery.findUniqueOrThrow({
+        where: { id: batteryId }
       });
 
-      return rental;
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'Rental',
+        entityId: rental.id,
+        after: rental
+      });
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: batteryId,
+        before: battery,
+        after: rentedBattery
+      });
+
+      // Pay what we can from wallet credit the customer already has
+      const walletPayment = !rental.isPaid && isWalletAutoApplyEnabled()
+        ? await applyWalletCredit(prisma, rental.id, { actor: req.user })
+        : null;
+
+      return {
+        ...(walletPayment ? await prisma.rental.findUniqueOrThrow({ where: { id: rental.id } }) : rental),
+        walletApplied: walletPayment?.applied ?? 0
+      };
+    });
+
+    if (!result) {
+      return res.status(400).json({ error: 'Battery is not available for rent' });
+    }
+
+    void notifyCustomer({
+      customer,
+      template: 'RENTAL_CREATED',
+      rentalId: result.id,
+      data: {
+        customerName: customer.name,
+        serialNumber: battery.serialNumber,
+        rentalPrice: Number(result.rentalPrice),
+        rentDate: result.rentDate
+      }
     });
 
     res.status(201).json(result);
@@ -119,49 +308,219 @@ router.post('/', requireAuth, async (req, res) => {
 });
 
 // Return a battery
-router.put('/:id/return', requireAuth, async (req, res) => {
+router.put('/:id/return', requireAuth, requirePermission('rental:return'), validate(returnRental), async (req: ValidatedRequest<typeof returnRental>, res) => {
   try {
     const { id } = req.params;
-    const { returnDate, isPaid } = req.body;
+    const { returnDate, isPaid, rentalPrice, chargeCount: charges, depositAction, healthReading } = req.body;
+
+    // Overriding the computed price needs its own permission
+    if (rentalPrice !== undefined && !hasPermission(req.user, 'rental:override-price')) {
+      return res.status(403).json({ error: 'Unauthorized: missing permission rental:override-price' });
+    }
+
+    // Writing off a balance at return needs the same permission as marking a rental paid
+    if (isPaid !== undefined && !hasPermission(req.user, 'rental:mark-paid')) {
+      return res.status(403).json({ error: 'Unauthorized: missing permission rental:mark-paid' });
+    }
 
     // Check if rental exists
     const rental = await prisma.rental.findUnique({
       where: { id },
-      include: { battery: true }
+      include: {
+        battery: true,
+        customer: true,
+        payments: true,
+        pricingPlan: true
+      }
     });
 
-    if (!rental) {
+    if (!rental || !canAccessBranch(req, rental.branchId)) {
       return res.status(404).json({ error: 'Rental not found' });
     }
 
-    if (rental.returnDate) {
-      return res.status(400).json({ error: 'Battery has already been returned' });
+    const actualReturnDate = returnDate ?? new Date();
+
+    if (actualReturnDate < rental.rentDate) {
+      return res.status(400).json({ error: 'Return date cannot be before the rent date' });
     }
 
+    // Compute the final price from the actual rental duration, unless a price is given manually
+    let finalPrice = Number(rental.rentalPrice);
+    let priceBreakdown: PriceBreakdown | null = null;
+    if (rental.pricingPlan) {
+      priceBreakdown = calculateRentalPrice(rental.pricingPlan, rental.rentDate, actualReturnDate, charges);
+      finalPrice = priceBreakdown.total;
+    }
+    if (rentalPrice !== undefined) {
+      finalPrice = rentalPrice;
+    }
+
+    // Late fees stop accruing at the return date. The stored paid flag covered the quoted price, not the
+    // final one, so only payments count unless the caller marks the rental paid.
+    const settledManually = isPaid ?? false;
+    const balanceBeforeDeposit = getRentalBalance({
+      ...rental,
+      isPaid: settledManually,
+      rentalPrice: finalPrice,
+      returnDate: actualReturnDate
+    });
+
+    // Settle a held deposit, by default applying it to whatever is still owed
+    let depositSettlement: DepositSettlement | null = null;
+    if (rental.depositStatus === 'HELD' && rental.depositAmount) {
+      depositSettlement = settleDeposit(Number(rental.depositAmount), balanceBeforeDeposit.remainingBalance, depositAction);
+    }
+    const appliedDeposit = depositSettlement?.applied ?? 0;
+
+    // Unless told otherwise, the rental counts as paid only if payments (and any applied
+    // deposit) cover the price plus any late fee
+    const balance = getRentalBalance({
+      ...rental,
+      isPaid: settledManually,
+      rentalPrice: finalPrice,
+      returnDate: actualReturnDate,
+      payments: [...rental.payments, { amount: appliedDeposit }]
+    });
+
+    // An early return can bring the final price below what was already paid (including wallet
+    // credit applied against the quote); the excess goes back to the customer's wallet
+    const overpaid = Math.max(Math.round((balance.totalPaid - balance.amountDue) * 100) / 100, 0);
+
     // Process return and update battery status in a transaction
     const result = await prisma.$transaction(async (prisma) => {
+      // Close the rental only if it is still open, so two returns of the same rental cannot both go through
+      const claimed = await prisma.rental.updateMany({
+        where: { id, returnDate: null },
+        data: { returnDate: actualReturnDate }
+      });
+      if (claimed.count !== 1) {
+        return null;
+      }
+
+      // Record the applied part of the deposit as a payment on the rental
+      if (depositSettlement && appliedDeposit > 0) {
+        const depositPayment = await prisma.payment.create({
+          data: {
+            rentalId: id,
+            customerId: rental.customerId,
+            amount: appliedDeposit,
+            paymentMethod: rental.depositMethod ?? 'CASH',
+            paymentDate: actualReturnDate,
+            branchId: rental.branchId,
+            fromDeposit: true
+          }
+        });
+
+        await recordAudit(prisma, {
+          actor: req.user,
+          action: 'CREATE',
+          entityType: 'Payment',
+          entityId: depositPayment.id,
+          after: depositPayment
+        });
+      }
+
       // Update the rental
       const updatedRental = await prisma.rental.update({
         where: { id },
         data: {
-          returnDate: returnDate ? new Date(returnDate) : new Date(),
-          isPaid: isPaid !== undefined ? isPaid : rental.isPaid
+          returnDate: actualReturnDate,
+          rentalPrice: finalPrice,
+          ...(rental.pricingPlan && { chargeCount: charges }),
+          isPaid: isPaid !== undefined ? isPaid : balance.remainingBalance === 0,
+          ...(depositSettlement && {
+            depositStatus: depositSettlement.action === 'forfeit'
+              ? 'FORFEITED'
+              : depositSettlement.applied > 0 ? 'APPLIED' : 'REFUNDED',
+            depositAppliedAmount: depositSettlement.applied,
+            depositRefundedAmount: depositSettlement.refunded,
+            depositSettledAt: actualReturnDate
+          })
         }
       });
 
+      if (overpaid > 0) {
+        await recordWalletTransaction(prisma, {
+          customerId: rental.customerId,
+          type: 'OVERPAYMENT',
+          amount: overpaid,
+          rentalId: id,
+          branchId: rental.branchId,
+          note: 'Paid beyond the final price at return',
+          actor: req.user
+        });
+      }
+
       // Update battery status to AVAILABLE
-      await prisma.battery.update({
+      const returnedBattery = await prisma.battery.update({
         where: { id: rental.batteryId },
         data: { status: 'AVAILABLE' }
       });
 
-      return updatedRental;
+      const { battery, customer, payments, pricingPlan, ...rentalBefore } = rental;
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Rental',
+        entityId: id,
+        before: rentalBefore,
+        after: updatedRental
+      });
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: rental.batteryId,
+        before: battery,
+        after: returnedBattery
+      });
+
+      // An optional health reading taken at return; a failing reading sends the battery straight to maintenance
+      const health = healthReading
+        ? await recordHealthReading(prisma, rental.batteryId, { recordedAt: actualReturnDate, ...healthReading }, {
+            rentalId: id,
+            actor: req.user
+          })
+        : null;
+
+      // Cover what is still owed from wallet credit
+      const walletPayment = !updatedRental.isPaid && isWalletAutoApplyEnabled()
+        ? await applyWalletCredit(prisma, id, { actor: req.user })
+        : null;
+
+      return {
+        ...(walletPayment ? await prisma.rental.findUniqueOrThrow({ where: { id } }) : updatedRental),
+        walletApplied: walletPayment?.applied ?? 0,
+        walletCredited: overpaid,
+        health
+      };
     });
 
+    if (!result) {
+      return res.status(400).json({ error: 'Battery has already been returned' });
+    }
+
     // Update customer credit rating based on return and payment
-    await updateCustomerCreditRating(rental.customerId);
+    await updateCustomerCreditRating(prisma, rental.customerId, req.user);
+
+    void notifyCustomer({
+      customer: rental.customer,
+      template: 'BATTERY_RETURNED',
+      rentalId: id,
+      data: {
+        customerName: rental.customer.name,
+        serialNumber: rental.battery.serialNumber,
+        returnDate: actualReturnDate,
+        remainingBalance: Math.max(Math.round((balance.remainingBalance - result.walletApplied) * 100) / 100, 0)
+      }
+    });
 
-    res.json(result);
+    res.json({
+      ...result,
+      priceBreakdown,
+      priceOverridden: rentalPrice !== undefined,
+      depositSettlement
+    });
   } catch (error) {
     console.error('Error returning battery:', error);
     res.status(500).json({ error: 'Failed to return battery' });
@@ -169,31 +528,40 @@ router.put('/:id/return', requireAuth, async (req, res) => {
 });
 
 // Update rental payment status
-router.put('/:id/payment', requireAuth, async (req, res) => {
+router.put('/:id/payment', requireAuth, requirePermission('rental:mark-paid'), validate(updateRentalPayment), async (req: ValidatedRequest<typeof updateRentalPayment>, res) => {
   try {
     const { id } = req.params;
     const { isPaid } = req.body;
 
-    if (isPaid === undefined) {
-      return res.status(400).json({ error: 'Payment status is required' });
-    }
-
     // Check if rental exists
     const rental = await prisma.rental.findUnique({
       where: { id }
     });
 
-    if (!rental) {
+    if (!rental || !canAccessBranch(req, rental.branchId)) {
       return res.status(404).json({ error: 'Rental not found' });
     }
 
-    const updatedRental = await prisma.rental.update({
-      where: { id },
-      data: { isPaid }
+    const updatedRental = await prisma.$transaction(async (prisma) => {
+      const updated = await prisma.rental.update({
+        where: { id },
+        data: { isPaid }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Rental',
+        entityId: id,
+        before: rental,
+        after: updated
+      });
+
+      return updated;
     });
 
     // Update customer credit rating based on payment
-    await updateCustomerCreditRating(rental.customerId);
+    await updateCustomerCreditRating(prisma, rental.customerId, req.user);
 
     res.json(updatedRental);
   } catch (error) {
@@ -202,108 +570,154 @@ router.put('/:id/payment', requireAuth, async (req, res) => {
   }
 });
 
-// Get active rentals (not returned)
-router.get('/filter/active', requireAuth, async (req, res) => {
+// Get a page of active rentals (not returned)
+router.get('/filter/active', requireAuth, requirePermission('rental:view'), validate(activeRentals), async (req: ValidatedRequest<typeof activeRentals>, res) => {
   try {
-    const activeRentals = await prisma.rental.findMany({
-      where: {
-        returnDate: null
-      },
+    const list = toListOptions(req.query);
+    const where: Prisma.RentalWhereInput = {
+      returnDate: null,
+      ...branchWhere(req)
+    };
+
+    const total = await prisma.rental.count({ where });
+    const rentals = await prisma.rental.findMany({
+      where,
       include: {
         battery: true,
         customer: true
       },
-      orderBy: {
-        rentDate: 'desc'
-      }
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
     });
 
-    res.json(activeRentals);
+    res.json(toPage(rentals, total, list));
   } catch (error) {
     console.error('Error fetching active rentals:', error);
     res.status(500).json({ error: 'Failed to fetch active rentals' });
   }
 });
 
-// Get rentals by date range
-router.get('/filter/by-date', requireAuth, async (req, res) => {
+// Get a page of overdue rentals (not returned and at least a day past their due date) with accrued late fees
+router.get('/filter/overdue', requireAuth, requirePermission('rental:view'), validate(overdueRentals), async (req: ValidatedRequest<typeof overdueRentals>, res) => {
   try {
-    const { startDate, endDate } = req.query;
-
-    if (!startDate || !endDate) {
-      return res.status(400).json({ error: 'Start date and end date are required' });
-    }
+    const now = new Date();
+    const list = toListOptions(req.query);
+    // Days overdue are counted in whole days, so a rental is overdue once its due date is a day behind
+    const dueCutoff = new Date(now.getTime() - DAY_MS);
+    // Rentals without a stored due date use the default period from their rent date
+    const legacyCutoff = new Date(dueCutoff.getTime() - getLateFeeRules().rentalPeriodDays * DAY_MS);
+
+    const where: Prisma.RentalWhereInput = {
+      returnDate: null,
+      OR: [
+        { dueDate: { lte: dueCutoff } },
+        { dueDate: null, rentDate: { lte: legacyCutoff } }
+      ],
+      ...branchWhere(req)
+    };
 
+    const total = await prisma.rental.count({ where });
     const rentals = await prisma.rental.findMany({
-      where: {
-        rentDate: {
-          gte: new Date(startDate as string),
-          lte: new Date(endDate as string)
-        }
-      },
+      where,
       include: {
         battery: true,
         customer: true,
         payments: true
       },
-      orderBy: {
-        rentDate: 'desc'
-      }
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
     });
 
-    res.json(rentals);
+    const overdueRentals = rentals.map(rental => ({
+      ...rental,
+      ...getRentalBalance(rental, now)
+    }));
+
+    res.json(toPage(overdueRentals, total, list));
   } catch (error) {
-    console.error('Error fetching rentals by date:', error);
-    res.status(500).json({ error: 'Failed to fetch rentals by date' });
+    console.error('Error fetching overdue rentals:', error);
+    res.status(500).json({ error: 'Failed to fetch overdue rentals' });
   }
 });
 
-// Helper function to update customer credit rating
-async function updateCustomerCreditRating(customerId: string) {
+// Get a page of rentals by date range
+router.get('/filter/by-date', requireAuth, requirePermission('rental:view'), validate(rentalsByDate), async (req: ValidatedRequest<typeof rentalsByDate>, res) => {
   try {
-    // Get all rentals for the customer
-    const customerRentals = await prisma.rental.findMany({
-      where: { customerId },
-      include: { payments: true }
-    });
+    const { startDate, endDate } = req.query;
+    const list = toListOptions(req.query);
+    const where = rentalsByDateWhere(startDate, endDate, branchWhere(req));
 
-    // Calculate credit rating based on payment history and return timeliness
-    let totalPoints = 0;
-    let totalRentals = customerRentals.length;
+    const total = await prisma.rental.count({ where });
+    const rentals = await prisma.rental.findMany({
+      where,
+      include: rentalsByDateInclude,
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
 
-    if (totalRentals === 0) return;
+    res.json(toPage(rentals, total, list));
+  } catch (error) {
+    console.error('Error fetching rentals by date:', error);
+    res.status(500).json({ error: 'Failed to fetch rentals by date' });
+  }
+});
 
-    customerRentals.forEach(rental => {
-      // Points for payment (0-2)
-      if (rental.isPaid) {
-        totalPoints += 2;
-      } else if (rental.payments.length > 0) {
-        // Partial payment
-        totalPoints += 1;
-      }
+// Export rentals by date range as Excel or CSV
+router.get('/filter/by-date/export', requireAuth, requirePermission('rental:view'), validate(exportRentalsByDate), async (req: ValidatedRequest<typeof exportRentalsByDate>, res) => {
+  try {
+    const { startDate, endDate, format } = req.query;
 
-      // Points for timely return (0-1)
-      if (rental.returnDate) {
-        const rentDuration = Math.floor((new Date(rental.returnDate).getTime() - new Date(rental.rentDate).getTime()) / (1000 * 60 * 60 * 24));
-        // Assuming a standard rental period of 7 days
-        if (rentDuration <= 7) {
-          totalPoints += 1;
-        }
+    const rentals = (await prisma.rental.findMany({
+      where: rentalsByDateWhere(startDate, endDate, branchWhere(req)),
+      include: rentalsByDateInclude,
+      orderBy: {
+        rentDate: 'desc'
       }
-    });
-
-    // Calculate average points (0-3) and scale to 0-5 rating
-    const avgPoints = totalPoints / (totalRentals * 3);
-    const creditRating = Math.round(avgPoints * 5);
-
-    // Update customer credit rating
-    await prisma.customer.update({
-      where: { id: customerId },
-      data: { creditRating }
+    })).map(rental => ({ ...rental, balance: getRentalBalance(rental) }));
+
+    sendExport(res, {
+      filename: `rentals-${formatDate(startDate)}-to-${formatDate(endDate)}`,
+      format,
+      rows: rentals,
+      columns: [
+        { header: 'Rental ID', value: rental => rental.id },
+        { header: 'Rent Date', value: rental => rental.rentDate, type: 'date' },
+        { header: 'Due Date', value: rental => rental.balance.dueDate, type: 'date' },
+        { header: 'Return Date', value: rental => rental.returnDate, type: 'date' },
+        { header: 'Customer', value: rental => rental.customer.name },
+        { header: 'Phone Number', value: rental => rental.customer.phoneNumber },
+        { header: 'Battery Serial Number', value: rental => rental.battery.serialNumber },
+        { header: 'Rental Price', value: rental => rental.rentalPrice, type: 'amount' },
+        { header: 'Late Fee', value: rental => rental.balance.lateFee, type: 'amount' },
+        { header: 'Total Paid', value: rental => rental.balance.totalPaid, type: 'amount' },
+        { header: 'Remaining Balance', value: rental => rental.balance.remainingBalance, type: 'amount' },
+        { header: 'Paid', value: rental => rental.isPaid ? 'Yes' : 'No' }
+      ]
     });
   } catch (error) {
-    console.error('Error updating customer credit rating:', error);
+    console.error('Error exporting rentals by date:', error);
+    res.status(500).json({ error: 'Failed to export rentals by date' });
   }
+});
+
+const rentalsByDateInclude = {
+  battery: true,
+  customer: true,
+  payments: true
+} satisfies Prisma.RentalInclude;
+
+// Helper function to filter rentals to a rent date range
+function rentalsByDateWhere(startDate: Date, endDate: Date, branch: Prisma.RentalWhereInput): Prisma.RentalWhereInput {
+  return {
+    rentDate: {
+      gte: startDate,
+      lte: endDate
+    },
+    ...branch
+  };
 }
 
 export default router;
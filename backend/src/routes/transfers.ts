@@ -0,0 +1,219 @@
+import express, { Response } from 'express';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { canAccessBranch, getBranchScope } from '../middleware/branches';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { toDateRange, toListOptions, toPage } from '../services/listQuery';
+import { byId } from '../schemas/common';
+import { createTransfer, listTransfers } from '../schemas/transfers';
+
+const router = express.Router();
+const prisma = new PrismaClient();
+
+// Get a page of battery transfers, newest first, optionally filtered by ?status=, ?batteryId= and a sent
+// date range (?startDate=, ?endDate=). Branch users see transfers in or out of their branch.
+router.get('/', requireAuth, requirePermission('battery:view'), validate(listTransfers), async (req: ValidatedRequest<typeof listTransfers>, res) => {
+  try {
+    const { status, batteryId } = req.query;
+    const list = toListOptions(req.query);
+    const range = toDateRange(req.query);
+
+    const branchId = getBranchScope(req);
+    const where: Prisma.BatteryTransferWhereInput = {
+      ...(status && { status }),
+      ...(batteryId && { batteryId }),
+      ...(range && { sentAt: range }),
+      ...(branchId && { OR: [{ fromBranchId: branchId }, { toBranchId: branchId }] })
+    };
+
+    const total = await prisma.batteryTransfer.count({ where });
+    const transfers = await prisma.batteryTransfer.findMany({
+      where,
+      include: {
+        battery: true,
+        fromBranch: true,
+        toBranch: true
+      },
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
+    });
+
+    res.json(toPage(transfers, total, list));
+  } catch (error) {
+    console.error('Error fetching transfers:', error);
+    res.status(500).json({ error: 'Failed to fetch transfers' });
+  }
+});
+
+// Send an available battery to another branch. It stays IN_TRANSIT until the other branch receives it.
+router.post('/', requireAuth, requirePermission('battery:transfer'), validate(createTransfer), async (req: ValidatedRequest<typeof createTransfer>, res) => {
+  try {
+    const { batteryId, toBranchId, note } = req.body;
+
+    const battery = await prisma.battery.findUnique({
+      where: { id: batteryId }
+    });
+
+    if (!battery || !canAccessBranch(req, battery.branchId)) {
+      return res.status(404).json({ error: 'Battery not found' });
+    }
+
+    if (!battery.branchId) {
+      return res.status(400).json({ error: 'Battery is not assigned to a branch' });
+    }
+
+    if (battery.archivedAt) {
+      return res.status(400).json({ error: 'Archived batteries cannot be transferred' });
+    }
+
+    if (battery.status !== 'AVAILABLE') {
+      return res.status(400).json({ error: 'Only available batteries can be transferred' });
+    }
+
+    const toBranch = await prisma.branch.findUnique({
+      where: { id: toBranchId }
+    });
+
+    if (!toBranch || !toBranch.isActive) {
+      return res.status(400).json({ error: 'Destination branch not found or inactive' });
+    }
+
+    if (toBranch.id === battery.branchId) {
+      return res.status(400).json({ error: 'Battery is already at this branch' });
+    }
+
+    const fromBranchId = battery.branchId;
+    const transfer = await prisma.$transaction(async (prisma) => {
+      // Claim the battery only if it is still available here, so a transfer cannot move a battery
+      // that was rented out or sent elsewhere since the checks above
+      const claimed = await prisma.battery.updateMany({
+        where: { id: batteryId, branchId: fromBranchId, status: 'AVAILABLE', archivedAt: null },
+        data: { status: 'IN_TRANSIT' }
+      });
+      if (claimed.count !== 1) {
+        return null;
+      }
+
+      const transfer = await prisma.batteryTransfer.create({
+        data: {
+          batteryId,
+          fromBranchId,
+          toBranchId,
+          note
+        }
+      });
+
+      const batteryInTransit = await prisma.battery.findUniqueOrThrow({
+        where: { id: batteryId }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'BatteryTransfer',
+        entityId: transfer.id,
+        after: transfer
+      });
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: batteryId,
+        before: battery,
+        after: batteryInTransit
+      });
+
+      return transfer;
+    });
+
+    if (!transfer) {
+      return res.status(409).json({ error: 'Battery is no longer available to transfer' });
+    }
+
+    res.status(201).json(transfer);
+  } catch (error) {
+    console.error('Error creating transfer:', error);
+    res.status(500).json({ error: 'Failed to create transfer' });
+  }
+});
+
+// Receive a battery at the destination branch
+router.put('/:id/receive', requireAuth, requirePermission('battery:transfer'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  await completeTransfer(req, res, 'RECEIVED');
+});
+
+// Cancel a transfer; the battery goes back into stock at the sending branch
+router.put('/:id/cancel', requireAuth, requirePermission('battery:transfer'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  await completeTransfer(req, res, 'CANCELLED');
+});
+
+// Close an in-transit transfer. Only the receiving branch can receive it and only the sending branch can cancel it.
+async function completeTransfer(req: ValidatedRequest<typeof byId>, res: Response, status: 'RECEIVED' | 'CANCELLED') {
+  try {
+    const { id } = req.params;
+
+    const existingTransfer = await prisma.batteryTransfer.findUnique({
+      where: { id },
+      include: {
+        battery: true
+      }
+    });
+
+    const branchId = status === 'RECEIVED' ? existingTransfer?.toBranchId : existingTransfer?.fromBranchId;
+    if (!existingTransfer || !canAccessBranch(req, branchId ?? null)) {
+      return res.status(404).json({ error: 'Transfer not found' });
+    }
+
+    if (existingTransfer.status !== 'IN_TRANSIT') {
+      return res.status(400).json({ error: `Transfer is already ${existingTransfer.status.toLowerCase()}` });
+    }
+
+    const updatedTransfer = await prisma.$transaction(async (prisma) => {
+      const transfer = await prisma.batteryTransfer.update({
+        where: { id },
+        data: {
+          status,
+          ...(status === 'RECEIVED' && { receivedAt: new Date() })
+        }
+      });
+
+      const updatedBattery = await prisma.battery.update({
+        where: { id: existingTransfer.batteryId },
+        data: {
+          status: 'AVAILABLE',
+          branchId
+        }
+      });
+
+      const { battery, ...transferBefore } = existingTransfer;
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'BatteryTransfer',
+        entityId: id,
+        before: transferBefore,
+        after: transfer
+      });
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'Battery',
+        entityId: battery.id,
+        before: battery,
+        after: updatedBattery
+      });
+
+      return transfer;
+    });
+
+    res.json(updatedTransfer);
+  } catch (error) {
+    console.error('Error completing transfer:', error);
+    res.status(500).json({ error: 'Failed to complete transfer' });
+  }
+}
+
+export default router;
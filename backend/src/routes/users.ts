@@ -1,19 +1,41 @@
 import express from 'express';
-import { PrismaClient } from '@prisma/client';
-import { requireAuth, requireAdmin } from '../middleware/auth';
+import { Prisma, PrismaClient } from '@prisma/client';
+import { requireAuth } from '../middleware/auth';
+import { getPermissions, requirePermission } from '../middleware/permissions';
+import { branchWhere, needsBranch } from '../middleware/branches';
+import { validate, ValidatedRequest } from '../middleware/validate';
+import { recordAudit } from '../services/audit';
+import { archivedWhere, toListOptions, toPage } from '../services/listQuery';
+import { byId } from '../schemas/common';
+import { createUser, listUsers, updateUser } from '../schemas/users';
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Get all users (admin only)
-router.get('/', requireAdmin, async (req, res) => {
+// Get a page of users, optionally for one branch or ?role= (admin only). Archived users are left out
+// unless ?includeArchived=true.
+router.get('/', requireAuth, requirePermission('user:manage'), validate(listUsers), async (req: ValidatedRequest<typeof listUsers>, res) => {
   try {
+    const { role, includeArchived } = req.query;
+    const list = toListOptions(req.query);
+
+    const where: Prisma.UserWhereInput = {
+      ...branchWhere(req),
+      ...(role && { role }),
+      ...archivedWhere(includeArchived)
+    };
+
+    const total = await prisma.user.count({ where });
     const users = await prisma.user.findMany({
-      orderBy: {
-        name: 'asc'
-      }
+      where,
+      include: {
+        branch: true
+      },
+      orderBy: list.orderBy,
+      skip: list.skip,
+      take: list.take
     });
-    res.json(users);
+    res.json(toPage(users, total, list));
   } catch (error) {
     console.error('Error fetching users:', error);
     res.status(500).json({ error: 'Failed to fetch users' });
@@ -23,21 +45,26 @@ router.get('/', requireAdmin, async (req, res) => {
 // Get current user
 router.get('/me', requireAuth, async (req, res) => {
   try {
-    // In a real implementation, this would use the authenticated user's ID
-    // For now, we're using the mock user from the auth middleware
     const userId = req.user?.id;
     
     if (!userId) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
     
-    // In development, return the mock user
-    // In production, this would fetch the real user from the database
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: {
+        branch: true
+      }
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
     res.json({
-      id: userId,
-      name: 'Admin User',
-      email: 'admin@batterymanager.com',
-      role: req.user?.role || 'admin'
+      ...user,
+      permissions: getPermissions(user.role)
     });
   } catch (error) {
     console.error('Error fetching current user:', error);
@@ -46,13 +73,12 @@ router.get('/me', requireAuth, async (req, res) => {
 });
 
 // Create a new user (admin only)
-router.post('/', requireAdmin, async (req, res) => {
+router.post('/', requireAuth, requirePermission('user:manage'), validate(createUser), async (req: ValidatedRequest<typeof createUser>, res) => {
   try {
-    const { email, name, role } = req.body;
+    const { email, name, role, branchId } = req.body;
 
-    // Validate required fields
-    if (!email || !name) {
-      return res.status(400).json({ error: 'Email and name are required' });
+    if (branchId && !(await prisma.branch.findUnique({ where: { id: branchId } }))) {
+      return res.status(400).json({ error: 'Branch not found' });
     }
 
     // Check if user with email already exists
@@ -61,15 +87,30 @@ router.post('/', requireAdmin, async (req, res) => {
     });
 
     if (existingUser) {
-      return res.status(400).json({ error: 'User with this email already exists' });
+      return res.status(400).json({
+        error: `User with this email already exists${existingUser.archivedAt ? ' (archived)' : ''}`
+      });
     }
 
-    const newUser = await prisma.user.create({
-      data: {
-        email,
-        name,
-        role: role || 'STAFF'
-      }
+    const newUser = await prisma.$transaction(async (prisma) => {
+      const user = await prisma.user.create({
+        data: {
+          email,
+          name,
+          role,
+          branchId
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'CREATE',
+        entityType: 'User',
+        entityId: user.id,
+        after: user
+      });
+
+      return user;
     });
 
     res.status(201).json(newUser);
@@ -80,10 +121,10 @@ router.post('/', requireAdmin, async (req, res) => {
 });
 
 // Update a user (admin only)
-router.put('/:id', requireAdmin, async (req, res) => {
+router.put('/:id', requireAuth, requirePermission('user:manage'), validate(updateUser), async (req: ValidatedRequest<typeof updateUser>, res) => {
   try {
     const { id } = req.params;
-    const { email, name, role } = req.body;
+    const { email, name, role, branchId } = req.body;
 
     // Check if user exists
     const existingUser = await prisma.user.findUnique({
@@ -94,6 +135,14 @@ router.put('/:id', requireAdmin, async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
+    if (needsBranch(role ?? existingUser.role) && !(branchId !== undefined ? branchId : existingUser.branchId)) {
+      return res.status(400).json({ error: `A branch is required for the ${role ?? existingUser.role} role` });
+    }
+
+    if (branchId && !(await prisma.branch.findUnique({ where: { id: branchId } }))) {
+      return res.status(400).json({ error: 'Branch not found' });
+    }
+
     // If email is being changed, check if it's unique
     if (email && email !== existingUser.email) {
       const duplicateEmail = await prisma.user.findUnique({
@@ -101,17 +150,33 @@ router.put('/:id', requireAdmin, async (req, res) => {
       });
 
       if (duplicateEmail) {
-        return res.status(400).json({ error: 'User with this email already exists' });
+        return res.status(400).json({
+          error: `User with this email already exists${duplicateEmail.archivedAt ? ' (archived)' : ''}`
+        });
       }
     }
 
-    const updatedUser = await prisma.user.update({
-      where: { id },
-      data: {
-        ...(email && { email }),
-        ...(name && { name }),
-        ...(role && { role })
-      }
+    const updatedUser = await prisma.$transaction(async (prisma) => {
+      const user = await prisma.user.update({
+        where: { id },
+        data: {
+          ...(email !== undefined && { email }),
+          ...(name !== undefined && { name }),
+          ...(role && { role }),
+          ...(branchId !== undefined && { branchId })
+        }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'User',
+        entityId: id,
+        before: existingUser,
+        after: user
+      });
+
+      return user;
     });
 
     res.json(updatedUser);
@@ -121,8 +186,96 @@ router.put('/:id', requireAdmin, async (req, res) => {
   }
 });
 
+// Archive a user so they can no longer sign in, keeping the records they created (admin only)
+router.put('/:id/archive', requireAuth, requirePermission('user:manage'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existingUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (id === req.user?.id) {
+      return res.status(400).json({ error: 'You cannot archive your own account' });
+    }
+
+    if (existingUser.archivedAt) {
+      return res.status(400).json({ error: 'User is already archived' });
+    }
+
+    const archivedUser = await prisma.$transaction(async (prisma) => {
+      const user = await prisma.user.update({
+        where: { id },
+        data: { archivedAt: new Date() }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'User',
+        entityId: id,
+        before: existingUser,
+        after: user
+      });
+
+      return user;
+    });
+
+    res.json(archivedUser);
+  } catch (error) {
+    console.error('Error archiving user:', error);
+    res.status(500).json({ error: 'Failed to archive user' });
+  }
+});
+
+// Restore an archived user (admin only)
+router.put('/:id/restore', requireAuth, requirePermission('user:manage'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
+  try {
+    const { id } = req.params;
+
+    const existingUser = await prisma.user.findUnique({
+      where: { id }
+    });
+
+    if (!existingUser) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    if (!existingUser.archivedAt) {
+      return res.status(400).json({ error: 'User is not archived' });
+    }
+
+    const restoredUser = await prisma.$transaction(async (prisma) => {
+      const user = await prisma.user.update({
+        where: { id },
+        data: { archivedAt: null }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'UPDATE',
+        entityType: 'User',
+        entityId: id,
+        before: existingUser,
+        after: user
+      });
+
+      return user;
+    });
+
+    res.json(restoredUser);
+  } catch (error) {
+    console.error('Error restoring user:', error);
+    res.status(500).json({ error: 'Failed to restore user' });
+  }
+});
+
 // Delete a user (admin only)
-router.delete('/:id', requireAdmin, async (req, res) => {
+router.delete('/:id', requireAuth, requirePermission('user:manage'), validate(byId), async (req: ValidatedRequest<typeof byId>, res) => {
   try {
     const { id } = req.params;
 
@@ -135,8 +288,22 @@ router.delete('/:id', requireAdmin, async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
 
-    await prisma.user.delete({
-      where: { id }
+    if (id === req.user?.id) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    await prisma.$transaction(async (prisma) => {
+      await prisma.user.delete({
+        where: { id }
+      });
+
+      await recordAudit(prisma, {
+        actor: req.user,
+        action: 'DELETE',
+        entityType: 'User',
+        entityId: id,
+        before: existingUser
+      });
     });
 
     res.json({ message: 'User deleted successfully' });
@@ -0,0 +1,15 @@
+// This file declares the request schemas of the audit log routes
+import { AuditAction } from '@prisma/client';
+import { z } from 'zod';
+import { dateRangeQuery, id, listQuery } from './common';
+
+export const listAuditLog = {
+  query: listQuery(['createdAt'], { sortBy: 'createdAt', sortOrder: 'desc' })
+    .merge(dateRangeQuery)
+    .extend({
+      actorId: id.optional(),
+      action: z.nativeEnum(AuditAction).optional(),
+      entityType: z.string().optional(),
+      entityId: id.optional()
+    })
+};
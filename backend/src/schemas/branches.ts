@@ -0,0 +1,27 @@
+// This file declares the request schemas of the branch routes
+import { z } from 'zod';
+import { booleanQuery, idParams, listQuery, text } from './common';
+
+export const listBranches = {
+  query: listQuery(['name', 'createdAt'], { sortBy: 'name', sortOrder: 'asc' }).extend({
+    includeInactive: booleanQuery.optional()
+  })
+};
+
+export const createBranch = {
+  body: z.object({
+    name: text,
+    address: z.string().optional(),
+    phoneNumber: z.string().optional()
+  })
+};
+
+export const updateBranch = {
+  params: idParams,
+  body: z.object({
+    name: text.optional(),
+    address: z.string().optional(),
+    phoneNumber: z.string().optional(),
+    isActive: z.boolean().optional()
+  })
+};
@@ -0,0 +1,76 @@
+// This file holds the building blocks shared by the request schemas of every router
+import { PaymentMethod } from '@prisma/client';
+import { z, ZodTypeAny } from 'zod';
+import { EXPORT_FORMATS } from '../services/export';
+import { EXTERNAL_PAYMENT_METHODS, isExternalPaymentMethod } from '../services/wallet';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from '../services/listQuery';
+
+// Numbers may arrive as JSON numbers or as numeric strings (query strings, form posts)
+export const numeric = <T extends ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (typeof value === 'string' && value.trim() !== '' ? Number(value) : value), schema);
+
+// Money amounts
+export const amount = numeric(z.number().finite().nonnegative('Must be zero or more'));
+export const positiveAmount = numeric(z.number().finite().positive('Must be greater than 0'));
+
+export const wholeNumber = numeric(z.number().int('Must be a whole number'));
+export const positiveWholeNumber = numeric(z.number().int('Must be a whole number').positive('Must be greater than 0'));
+
+export const creditRating = numeric(
+  z.number().int('Must be a whole number').min(0, 'Must be between 0 and 5').max(5, 'Must be between 0 and 5')
+);
+
+// Cash, mobile money or bank transfer; WALLET is only used internally when credit is applied
+export const externalPaymentMethod = z.nativeEnum(PaymentMethod)
+  .refine(isExternalPaymentMethod, `Must be one of ${EXTERNAL_PAYMENT_METHODS.join(', ')}`);
+
+// Dates as ISO strings or timestamps
+export const date = z.preprocess(
+  value => (typeof value === 'string' || typeof value === 'number' ? new Date(value) : value),
+  z.date({ invalid_type_error: 'Must be a valid date' })
+);
+
+// Text that must not be blank once trimmed
+export const text = z.string().trim().min(1, 'Must not be empty');
+
+export const id = z.string().uuid('Must be a valid ID');
+
+export const idParams = z.object({ id });
+
+// Routes that only take an :id
+export const byId = { params: idParams };
+
+// ?flag=true / ?flag=false
+export const booleanQuery = z.enum(['true', 'false']).transform(value => value === 'true');
+
+// ?branchId= narrows results for users who see every branch (see getBranchScope)
+export const branchQuery = z.object({
+  branchId: id.optional()
+});
+
+// ?format=xlsx (default) or ?format=csv for export endpoints
+export const exportQuery = z.object({
+  format: z.enum(EXPORT_FORMATS).default('xlsx')
+});
+
+// Inclusive ?startDate= / ?endDate= range; either end may be left open
+export const dateRangeQuery = z.object({
+  startDate: date.optional(),
+  endDate: date.optional()
+});
+
+// ?page=, ?pageSize=, ?sortBy= and ?sortOrder= for list endpoints; only the listed fields can be sorted on
+export const listQuery = <F extends string>(
+  sortFields: readonly [F, ...F[]],
+  defaultSort: { sortBy: F; sortOrder: 'asc' | 'desc' }
+) => z.object({
+  page: positiveWholeNumber.default(1),
+  pageSize: numeric(
+    z.number()
+      .int('Must be a whole number')
+      .min(1, `Must be between 1 and ${MAX_PAGE_SIZE}`)
+      .max(MAX_PAGE_SIZE, `Must be between 1 and ${MAX_PAGE_SIZE}`)
+  ).default(DEFAULT_PAGE_SIZE),
+  sortBy: z.enum(sortFields).default(defaultSort.sortBy),
+  sortOrder: z.enum(['asc', 'desc']).default(defaultSort.sortOrder)
+});
@@ -0,0 +1,151 @@
+// This file declares the request schemas of the customer routes
+import { z } from 'zod';
+import { normalizePhoneNumber } from '../services/phone';
+import { SEARCH_DEFAULT_PAGE_SIZE, SEARCH_MAX_PAGE_SIZE, SEARCH_MIN_LENGTH } from '../services/customerSearch';
+import {
+  booleanQuery,
+  branchQuery,
+  creditRating,
+  date,
+  dateRangeQuery,
+  exportQuery,
+  externalPaymentMethod,
+  id,
+  idParams,
+  listQuery,
+  numeric,
+  positiveAmount,
+  positiveWholeNumber,
+  text
+} from './common';
+
+const CUSTOMER_SORT_FIELDS = ['name', 'creditRating', 'createdAt'] as const;
+
+// Phone numbers are stored in E.164 so the same phone written differently is still caught as a duplicate
+const phoneNumber = z.string().transform((value, ctx) => {
+  const normalized = normalizePhoneNumber(value);
+  if (!normalized.phoneNumber) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: normalized.error });
+    return z.NEVER;
+  }
+  return normalized.phoneNumber;
+});
+
+const dryRunQuery = z.object({
+  dryRun: booleanQuery.optional()
+});
+
+export const listCustomers = {
+  query: listQuery(CUSTOMER_SORT_FIELDS, { sortBy: 'name', sortOrder: 'asc' })
+    .merge(dateRangeQuery)
+    .extend({
+      minCreditRating: creditRating.optional(),
+      maxCreditRating: creditRating.optional(),
+      isBlacklisted: booleanQuery.optional(),
+      includeArchived: booleanQuery.optional()
+    })
+};
+
+export const fuzzySearchCustomers = {
+  query: z.object({
+    q: z.string().trim().min(SEARCH_MIN_LENGTH, `Must be at least ${SEARCH_MIN_LENGTH} characters`),
+    // Results are ranked by relevance, so search pages have no sort parameters
+    page: positiveWholeNumber.default(1),
+    pageSize: numeric(
+      z.number()
+        .int('Must be a whole number')
+        .min(1, `Must be between 1 and ${SEARCH_MAX_PAGE_SIZE}`)
+        .max(SEARCH_MAX_PAGE_SIZE, `Must be between 1 and ${SEARCH_MAX_PAGE_SIZE}`)
+    ).default(SEARCH_DEFAULT_PAGE_SIZE)
+  })
+};
+
+// Top-ups and withdrawals move real money, so they name how it was paid
+export const walletMovement = {
+  params: idParams,
+  body: z.object({
+    amount: positiveAmount,
+    paymentMethod: externalPaymentMethod,
+    note: z.string().optional()
+  })
+};
+
+export const applyWalletToRental = {
+  params: idParams,
+  body: z.object({
+    rentalId: id,
+    // Defaults to as much as the wallet and the rental's balance allow
+    amount: positiveAmount.optional()
+  })
+};
+
+export const creditRatingHistory = {
+  params: idParams,
+  query: listQuery(['createdAt'], { sortBy: 'createdAt', sortOrder: 'desc' })
+};
+
+export const blacklistCustomer = {
+  params: idParams,
+  body: z.object({
+    reason: text
+  })
+};
+
+export const createCustomer = {
+  body: z.object({
+    name: text,
+    phoneNumber,
+    address: z.string().optional()
+  })
+};
+
+export const importCustomers = {
+  query: dryRunQuery,
+  body: dryRunQuery
+};
+
+// A manual credit rating (with an optional reason) can be pinned against automatic recalculation until a future date
+export const updateCustomer = {
+  params: idParams,
+  body: z.object({
+    name: text.optional(),
+    phoneNumber: phoneNumber.optional(),
+    address: z.string().optional(),
+    creditRating: creditRating.optional(),
+    creditRatingReason: z.string().optional(),
+    creditRatingPinnedUntil: date.refine(value => value > new Date(), 'Must be a future date').nullable().optional()
+  }).refine(body => !body.creditRatingPinnedUntil || body.creditRating !== undefined, {
+    message: 'Can only be given with a credit rating',
+    path: ['creditRatingPinnedUntil']
+  })
+};
+
+export const normalizePhoneNumbers = {
+  query: dryRunQuery
+};
+
+export const mergeCustomers = {
+  params: idParams,
+  body: z.object({
+    duplicateId: id
+  })
+};
+
+// Due amounts include late fees, which are computed rather than stored, so this list is sorted and paged in memory
+export const customersWithDues = {
+  query: listQuery(['dueAmount', 'name', 'creditRating'], { sortBy: 'dueAmount', sortOrder: 'desc' }).merge(branchQuery)
+};
+
+export const exportCustomersWithDues = {
+  query: branchQuery.merge(exportQuery)
+};
+
+// Rental counts are limited to the user's branch, so this list is sorted and paged in memory
+export const topCustomers = {
+  query: listQuery(['rentalCount'], { sortBy: 'rentalCount', sortOrder: 'desc' }).merge(branchQuery)
+};
+
+export const customerNotifications = {
+  params: idParams,
+  query: listQuery(['createdAt'], { sortBy: 'createdAt', sortOrder: 'desc' })
+};
@@ -0,0 +1,114 @@
+// This file declares the request schemas of the inventory routes
+import { Status } from '@prisma/client';
+import { z } from 'zod';
+import { DISPOSAL_STATUSES, isDisposalStatus } from '../services/batteryLifecycle';
+import {
+  amount,
+  booleanQuery,
+  branchQuery,
+  date,
+  dateRangeQuery,
+  exportQuery,
+  id,
+  idParams,
+  listQuery,
+  numeric,
+  positiveAmount,
+  text
+} from './common';
+
+const BATTERY_SORT_FIELDS = ['dateAdded', 'serialNumber', 'price', 'status', 'createdAt'] as const;
+
+// A health reading, taken on its own or when a battery is returned; at least one measurement is required
+export const healthReading = z.object({
+  voltage: numeric(z.number().nonnegative('Must be zero or more')).optional(),
+  stateOfHealth: numeric(z.number().min(0, 'Must be a percentage between 0 and 100').max(100, 'Must be a percentage between 0 and 100')).optional(),
+  chargeCycles: numeric(z.number().int('Must be a whole number').nonnegative('Must be zero or more')).optional(),
+  condition: z.string().optional(),
+  recordedAt: date.optional()
+}).refine(
+  reading => reading.voltage !== undefined || reading.stateOfHealth !== undefined ||
+    reading.chargeCycles !== undefined || !!reading.condition,
+  'A health reading needs at least one of voltage, stateOfHealth, chargeCycles or condition'
+);
+
+export const listBatteries = {
+  query: listQuery(BATTERY_SORT_FIELDS, { sortBy: 'dateAdded', sortOrder: 'desc' })
+    .merge(dateRangeQuery)
+    .merge(branchQuery)
+    .extend({
+      // One status or a comma-separated list
+      status: z.string().transform(value => value.split(',')).pipe(z.array(z.nativeEnum(Status))).optional(),
+      includeDisposed: booleanQuery.optional(),
+      includeArchived: booleanQuery.optional()
+    })
+};
+
+export const exportBatteries = {
+  query: exportQuery.merge(branchQuery).extend({
+    includeDisposed: booleanQuery.optional(),
+    includeArchived: booleanQuery.optional()
+  })
+};
+
+export const assetValueReport = {
+  query: branchQuery.extend({
+    asOf: date.optional()
+  })
+};
+
+export const exportAssetValueReport = {
+  query: assetValueReport.query.merge(exportQuery)
+};
+
+export const recordBatteryHealth = {
+  params: idParams,
+  body: healthReading
+};
+
+export const createBattery = {
+  body: z.object({
+    serialNumber: text,
+    price: positiveAmount,
+    // Only users with branch:all may place stock outside their own branch
+    branchId: id.nullable().optional()
+  })
+};
+
+// Multipart form fields sent alongside the uploaded file
+export const importBatteries = {
+  query: z.object({
+    dryRun: booleanQuery.optional()
+  }),
+  body: z.object({
+    dryRun: booleanQuery.optional(),
+    branchId: id.optional()
+  })
+};
+
+export const updateBattery = {
+  params: idParams,
+  body: z.object({
+    serialNumber: text.optional(),
+    price: positiveAmount.optional(),
+    status: z.nativeEnum(Status).optional(),
+    branchId: id.nullable().optional()
+  })
+};
+
+export const disposeBattery = {
+  params: idParams,
+  body: z.object({
+    status: z.nativeEnum(Status).refine(isDisposalStatus, `Must be one of ${DISPOSAL_STATUSES.join(', ')}`),
+    reason: text,
+    disposedAt: date.optional(),
+    salePrice: amount.optional()
+  }).refine(body => body.salePrice === undefined || body.status === 'SOLD', {
+    message: 'A sale price can only be given for SOLD batteries',
+    path: ['salePrice']
+  })
+};
+
+export const inventorySummary = {
+  query: branchQuery
+};
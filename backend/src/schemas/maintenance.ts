@@ -0,0 +1,55 @@
+// This file declares the request schemas of the maintenance routes
+import { MaintenanceOutcome } from '@prisma/client';
+import { z } from 'zod';
+import { amount, branchQuery, date, dateRangeQuery, exportQuery, id, idParams, listQuery, text } from './common';
+
+const TICKET_SORT_FIELDS = ['openedAt', 'closedAt', 'cost'] as const;
+
+// Details that can be filled in when a ticket is opened and completed while it is worked on
+const ticketDetails = z.object({
+  technician: z.string().optional(),
+  parts: z.string().optional(),
+  cost: amount.optional(),
+  notes: z.string().optional()
+});
+
+export const listTickets = {
+  query: listQuery(TICKET_SORT_FIELDS, { sortBy: 'openedAt', sortOrder: 'desc' })
+    .merge(dateRangeQuery)
+    .merge(branchQuery)
+    .extend({
+      status: z.enum(['open', 'closed']).optional(),
+      batteryId: id.optional()
+    })
+};
+
+// Either end of the date range may be given on its own
+export const maintenanceCostReport = {
+  query: dateRangeQuery.merge(branchQuery)
+};
+
+export const exportMaintenanceCostReport = {
+  query: maintenanceCostReport.query.merge(exportQuery)
+};
+
+export const openTicket = {
+  body: ticketDetails.extend({
+    batteryId: id,
+    issue: text
+  })
+};
+
+export const updateTicket = {
+  params: idParams,
+  body: ticketDetails.extend({
+    issue: text.optional()
+  })
+};
+
+export const closeTicket = {
+  params: idParams,
+  body: ticketDetails.extend({
+    outcome: z.nativeEnum(MaintenanceOutcome),
+    closedAt: date.optional()
+  })
+};
@@ -0,0 +1,111 @@
+// This file declares the request schemas of the payment routes
+import { PaymentMethod, PaymentType } from '@prisma/client';
+import { z } from 'zod';
+import {
+  branchQuery,
+  date,
+  dateRangeQuery,
+  exportQuery,
+  externalPaymentMethod,
+  id,
+  idParams,
+  listQuery,
+  numeric,
+  positiveAmount,
+  positiveWholeNumber,
+  text
+} from './common';
+
+const PAYMENT_SORT_FIELDS = ['paymentDate', 'amount', 'paymentMethod', 'createdAt'] as const;
+
+export const listPayments = {
+  query: listQuery(PAYMENT_SORT_FIELDS, { sortBy: 'paymentDate', sortOrder: 'desc' })
+    .merge(dateRangeQuery)
+    .merge(branchQuery)
+    .extend({
+      paymentMethod: z.nativeEnum(PaymentMethod).optional(),
+      type: z.nativeEnum(PaymentType).optional(),
+      customerId: id.optional(),
+      rentalId: id.optional()
+    })
+};
+
+// Corrections go through refund or void, never through negative payments. Wallet payments are made
+// through the customer wallet endpoints.
+export const createPayment = {
+  body: z.object({
+    rentalId: id,
+    customerId: id,
+    amount: positiveAmount,
+    paymentMethod: externalPaymentMethod
+  })
+};
+
+// Whether each allocation names an open rental of the customer, and stays within what it owes, is checked
+// against the database by the route
+export const allocateCustomerPayment = {
+  body: z.object({
+    customerId: id,
+    amount: positiveAmount,
+    paymentMethod: externalPaymentMethod,
+    allocations: z.array(z.object({
+      rentalId: id,
+      amount: positiveAmount
+    })).default([])
+  }).refine(body => new Set(body.allocations.map(allocation => allocation.rentalId)).size === body.allocations.length, {
+    message: 'Each rental may only be listed once',
+    path: ['allocations']
+  }).refine(body => {
+    const totalInstructed = body.allocations.reduce((sum, allocation) => sum + allocation.amount, 0);
+    return Math.round(totalInstructed * 100) <= Math.round(body.amount * 100);
+  }, {
+    message: 'Allocations add up to more than the amount received',
+    path: ['allocations']
+  })
+};
+
+// Refunds and voids; only a refund may name an amount, a void reverses whatever is left
+export const paymentReversal = {
+  params: idParams,
+  body: z.object({
+    amount: positiveAmount.optional(),
+    reason: text,
+    paymentMethod: externalPaymentMethod.optional()
+  })
+};
+
+const paymentDateRangeQuery = z.object({
+  startDate: date,
+  endDate: date
+});
+
+export const paymentsByDate = {
+  query: listQuery(PAYMENT_SORT_FIELDS, { sortBy: 'paymentDate', sortOrder: 'desc' })
+    .merge(branchQuery)
+    .merge(paymentDateRangeQuery)
+};
+
+export const exportPaymentsByDate = {
+  query: paymentDateRangeQuery.merge(branchQuery).merge(exportQuery)
+};
+
+export const dailyEarnings = {
+  query: branchQuery.extend({
+    // Defaults to today
+    date: date.optional()
+  })
+};
+
+export const monthlyEarnings = {
+  query: branchQuery.extend({
+    // Default to the current month
+    year: positiveWholeNumber.optional(),
+    month: numeric(
+      z.number().int('Must be a whole number').min(1, 'Must be between 1 and 12').max(12, 'Must be between 1 and 12')
+    ).optional()
+  })
+};
+
+export const financialSummary = {
+  query: branchQuery
+};
@@ -0,0 +1,44 @@
+// This file declares the request schemas of the pricing plan routes
+import { z } from 'zod';
+import { amount, booleanQuery, date, idParams, listQuery, numeric, text } from './common';
+
+// A plan charges by the day, by the week, per charge or any mix of these; null drops a rate
+const rates = z.object({
+  dailyRate: amount.nullable().optional(),
+  weeklyRate: amount.nullable().optional(),
+  perChargeRate: amount.nullable().optional(),
+  minimumCharge: amount.optional()
+});
+
+export const listPricingPlans = {
+  query: listQuery(['name', 'createdAt'], { sortBy: 'name', sortOrder: 'asc' }).extend({
+    includeInactive: booleanQuery.optional()
+  })
+};
+
+export const quotePricingPlan = {
+  params: idParams,
+  query: z.object({
+    startDate: date,
+    endDate: date,
+    chargeCount: numeric(z.number().int('Must be a whole number').nonnegative('Must be zero or more')).default(0)
+  })
+};
+
+export const createPricingPlan = {
+  body: rates.extend({
+    name: text
+  }).refine(body => body.dailyRate != null || body.weeklyRate != null || body.perChargeRate != null, {
+    message: 'At least one of daily, weekly or per-charge rate is required',
+    path: ['dailyRate']
+  })
+};
+
+// Whether the plan keeps at least one rate depends on the stored plan, so the route checks that
+export const updatePricingPlan = {
+  params: idParams,
+  body: rates.extend({
+    name: text.optional(),
+    isActive: z.boolean().optional()
+  })
+};
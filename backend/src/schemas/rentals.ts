@@ -0,0 +1,105 @@
+// This file declares the request schemas of the rental routes
+import { z } from 'zod';
+import { DEPOSIT_ACTIONS } from '../services/deposits';
+import { healthReading } from './inventory';
+import {
+  amount,
+  booleanQuery,
+  branchQuery,
+  date,
+  dateRangeQuery,
+  exportQuery,
+  externalPaymentMethod,
+  id,
+  idParams,
+  listQuery,
+  numeric,
+  positiveAmount,
+  positiveWholeNumber,
+  text
+} from './common';
+
+const RENTAL_SORT_FIELDS = ['rentDate', 'dueDate', 'returnDate', 'rentalPrice', 'createdAt'] as const;
+
+export const listRentals = {
+  query: listQuery(RENTAL_SORT_FIELDS, { sortBy: 'rentDate', sortOrder: 'desc' })
+    .merge(dateRangeQuery)
+    .merge(branchQuery)
+    .extend({
+      isPaid: booleanQuery.optional(),
+      status: z.enum(['active', 'returned']).optional(),
+      customerId: id.optional(),
+      batteryId: id.optional()
+    })
+};
+
+// The price is either typed in flat or computed from a pricing plan. The due date comes from an explicit
+// date, a per-rental period, or the configured default period.
+export const createRental = {
+  body: z.object({
+    batteryId: id,
+    customerId: id,
+    rentalPrice: positiveAmount.optional(),
+    pricingPlanId: id.optional(),
+    // Marks the rental paid without a payment (needs rental:mark-paid)
+    isPaid: z.boolean().optional(),
+    rentalPeriodDays: positiveWholeNumber.optional(),
+    dueDate: date.refine(value => value > new Date(), 'Must be a future date').optional(),
+    depositAmount: amount.optional(),
+    depositMethod: externalPaymentMethod.optional(),
+    // Rent despite failed eligibility rules (needs rental:override-eligibility)
+    eligibilityOverrideReason: text.optional()
+  }).refine(body => body.rentalPrice !== undefined || body.pricingPlanId !== undefined, {
+    message: 'A rental price or pricing plan is required',
+    path: ['rentalPrice']
+  }).refine(body => !body.depositAmount || body.depositMethod !== undefined, {
+    message: 'Required when a deposit is taken',
+    path: ['depositMethod']
+  })
+};
+
+export const returnRental = {
+  params: idParams,
+  body: z.object({
+    // Must not be before the rental started; the route checks that against the rental
+    returnDate: date.refine(value => value <= new Date(), 'Must not be a future date').optional(),
+    // Writes off what is still owed (needs rental:mark-paid)
+    isPaid: z.boolean().optional(),
+    // Overrides the computed price (needs rental:override-price)
+    rentalPrice: amount.optional(),
+    chargeCount: numeric(z.number().int('Must be a whole number').nonnegative('Must be zero or more')).default(0),
+    depositAction: z.enum(DEPOSIT_ACTIONS).default('apply'),
+    healthReading: healthReading.optional()
+  })
+};
+
+export const updateRentalPayment = {
+  params: idParams,
+  body: z.object({
+    isPaid: z.boolean()
+  })
+};
+
+const rentalPageQuery = listQuery(RENTAL_SORT_FIELDS, { sortBy: 'rentDate', sortOrder: 'desc' }).merge(branchQuery);
+
+const rentDateRangeQuery = z.object({
+  startDate: date,
+  endDate: date
+});
+
+export const activeRentals = {
+  query: rentalPageQuery
+};
+
+// Most overdue first. Rentals from before due dates were stored have no due date and sort last.
+export const overdueRentals = {
+  query: listQuery(['dueDate', 'rentDate'], { sortBy: 'dueDate', sortOrder: 'asc' }).merge(branchQuery)
+};
+
+export const rentalsByDate = {
+  query: rentalPageQuery.merge(rentDateRangeQuery)
+};
+
+export const exportRentalsByDate = {
+  query: rentDateRangeQuery.merge(branchQuery).merge(exportQuery)
+};
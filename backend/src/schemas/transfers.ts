@@ -0,0 +1,24 @@
+// This file declares the request schemas of the battery transfer routes
+import { TransferStatus } from '@prisma/client';
+import { z } from 'zod';
+import { branchQuery, dateRangeQuery, id, listQuery } from './common';
+
+const TRANSFER_SORT_FIELDS = ['sentAt', 'receivedAt', 'status'] as const;
+
+export const listTransfers = {
+  query: listQuery(TRANSFER_SORT_FIELDS, { sortBy: 'sentAt', sortOrder: 'desc' })
+    .merge(dateRangeQuery)
+    .merge(branchQuery)
+    .extend({
+      status: z.nativeEnum(TransferStatus).optional(),
+      batteryId: id.optional()
+    })
+};
+
+export const createTransfer = {
+  body: z.object({
+    batteryId: id,
+    toBranchId: id,
+    note: z.string().optional()
+  })
+};
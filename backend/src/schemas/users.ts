@@ -0,0 +1,42 @@
+// This file declares the request schemas of the user routes
+import { Role } from '@prisma/client';
+import { z } from 'zod';
+import { needsBranch } from '../middleware/branches';
+import { booleanQuery, branchQuery, id, idParams, listQuery, text } from './common';
+
+const USER_SORT_FIELDS = ['name', 'email', 'role', 'createdAt'] as const;
+
+const email = z.string().trim().email('Must be a valid email address');
+
+export const listUsers = {
+  query: listQuery(USER_SORT_FIELDS, { sortBy: 'name', sortOrder: 'asc' })
+    .merge(branchQuery)
+    .extend({
+      role: z.nativeEnum(Role).optional(),
+      includeArchived: booleanQuery.optional()
+    })
+};
+
+export const createUser = {
+  body: z.object({
+    email,
+    name: text,
+    role: z.nativeEnum(Role).default('STAFF'),
+    branchId: id.nullable().optional()
+  }).refine(body => !needsBranch(body.role) || !!body.branchId, {
+    message: 'Required for this role',
+    path: ['branchId']
+  })
+};
+
+// Whether the user keeps a branch their role needs depends on the stored user, so the route checks that.
+// branchId: null takes the user off their branch
+export const updateUser = {
+  params: idParams,
+  body: z.object({
+    email: email.optional(),
+    name: text.optional(),
+    role: z.nativeEnum(Role).optional(),
+    branchId: id.nullable().optional()
+  })
+};
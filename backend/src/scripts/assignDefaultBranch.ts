@@ -0,0 +1,45 @@
+// This script assigns records created before branches existed to one branch, so staff still see them
+// once lists are scoped to their branch. Run it once after deploying branches:
+//   npm run branches:assign-default -- "Main branch"
+// Without a name the branch is called "Main"; it is created if it does not exist. Records that
+// already have a branch are left alone.
+import { PrismaClient, Role } from '@prisma/client';
+import { needsBranch } from '../middleware/branches';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  const name = process.argv[2] || 'Main';
+  const unassigned = { branchId: null };
+
+  const counts = await prisma.$transaction(async (prisma) => {
+    const branch = await prisma.branch.upsert({
+      where: { name },
+      update: {},
+      create: { name }
+    });
+    const assign = { where: unassigned, data: { branchId: branch.id } };
+
+    return {
+      branch: branch.name,
+      batteries: (await prisma.battery.updateMany(assign)).count,
+      rentals: (await prisma.rental.updateMany(assign)).count,
+      payments: (await prisma.payment.updateMany(assign)).count,
+      walletTransactions: (await prisma.walletTransaction.updateMany(assign)).count,
+      // Only users who cannot see every branch need one to sign in
+      users: (await prisma.user.updateMany({
+        where: { ...unassigned, role: { in: Object.values(Role).filter(needsBranch) } },
+        data: { branchId: branch.id }
+      })).count
+    };
+  });
+
+  console.log('Assigned unassigned records to the default branch:', counts);
+}
+
+main()
+  .catch(error => {
+    console.error('Error assigning the default branch:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
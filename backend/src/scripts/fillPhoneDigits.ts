@@ -0,0 +1,23 @@
+// This script fills in phoneDigits for customers saved before the column existed, so the customer
+// search finds them by phone number. Run it once after deploying the column:
+//   npm run customers:fill-phone-digits
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  // The same digits toPhoneDigits keeps in step on every later write
+  const updated = await prisma.$executeRaw`
+    UPDATE customers
+    SET "phoneDigits" = regexp_replace("phoneNumber", '[^0-9]', '', 'g')
+    WHERE "phoneDigits" <> regexp_replace("phoneNumber", '[^0-9]', '', 'g')`;
+
+  console.log(`Filled in phone digits for ${updated} customers`);
+}
+
+main()
+  .catch(error => {
+    console.error('Error filling in phone digits:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
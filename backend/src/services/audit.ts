@@ -0,0 +1,46 @@
+// This file records audit log entries for every mutation made through the API
+import { Request } from 'express';
+import { AuditAction, Prisma } from '@prisma/client';
+
+export type AuditEntityType =
+  | 'Battery'
+  | 'Customer'
+  | 'Rental'
+  | 'Payment'
+  | 'User'
+  | 'PricingPlan'
+  | 'WalletTransaction'
+  | 'MaintenanceTicket'
+  | 'BatteryHealthReading'
+  | 'Branch'
+  | 'BatteryTransfer';
+
+interface AuditEntry {
+  actor?: Request['user'];
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Convert a Prisma record into plain JSON (Decimals become strings, Dates become ISO strings)
+const toSnapshot = (value: unknown) => {
+  if (value === undefined || value === null) return undefined;
+  return JSON.parse(JSON.stringify(value)) as Prisma.InputJsonValue;
+};
+
+// Write an audit entry. Pass the transaction client so the entry commits together with the change.
+export async function recordAudit(db: Prisma.TransactionClient, entry: AuditEntry) {
+  return db.auditLog.create({
+    data: {
+      actorId: entry.actor?.id,
+      actorEmail: entry.actor?.email,
+      action: entry.action,
+      entityType: entry.entityType,
+      entityId: entry.entityId,
+      before: toSnapshot(entry.before),
+      after: toSnapshot(entry.after)
+    }
+  });
+}
@@ -0,0 +1,77 @@
+// This file records battery health readings and takes degraded batteries out of stock
+import { Request } from 'express';
+import { Prisma } from '@prisma/client';
+import { recordAudit } from './audit';
+import { openMaintenanceTicket } from './maintenance';
+import { readNumberSetting, readOptionalNumberSetting } from './settings';
+
+// A reading as validated by the healthReading request schema
+export interface HealthReadingInput {
+  voltage?: number;
+  stateOfHealth?: number;
+  chargeCycles?: number;
+  condition?: string;
+  recordedAt?: Date;
+}
+
+// Health thresholds, configured through HEALTH_MIN_STATE_OF_HEALTH and HEALTH_MAX_CHARGE_CYCLES
+export const getHealthThresholds = () => ({
+  minStateOfHealth: readNumberSetting('HEALTH_MIN_STATE_OF_HEALTH', 70),
+  maxChargeCycles: readOptionalNumberSetting('HEALTH_MAX_CHARGE_CYCLES')
+});
+
+// Reasons a reading shows the battery should not be rented out again (empty when it is healthy)
+export function getHealthIssues(reading: HealthReadingInput, thresholds = getHealthThresholds()) {
+  const issues: string[] = [];
+
+  if (reading.stateOfHealth !== undefined && reading.stateOfHealth < thresholds.minStateOfHealth) {
+    issues.push(`State of health ${reading.stateOfHealth}% is below the minimum of ${thresholds.minStateOfHealth}%`);
+  }
+  if (reading.chargeCycles !== undefined && thresholds.maxChargeCycles !== null &&
+      reading.chargeCycles >= thresholds.maxChargeCycles) {
+    issues.push(`${reading.chargeCycles} charge cycles reached the limit of ${thresholds.maxChargeCycles}`);
+  }
+
+  return issues;
+}
+
+// Store a reading and audit it. A reading that fails the thresholds is flagged whatever the battery's
+// status; if the battery is also in stock, a maintenance ticket is opened so it cannot be rented
+// until someone has looked at it.
+export async function recordHealthReading(
+  db: Prisma.TransactionClient,
+  batteryId: string,
+  reading: HealthReadingInput,
+  options: { rentalId?: string; actor?: Request['user'] } = {}
+) {
+  const issues = getHealthIssues(reading);
+
+  const healthReading = await db.batteryHealthReading.create({
+    data: {
+      batteryId,
+      rentalId: options.rentalId,
+      ...reading,
+      flagged: issues.length > 0,
+      flagReason: issues.length > 0 ? issues.join('; ') : null
+    }
+  });
+
+  await recordAudit(db, {
+    actor: options.actor,
+    action: 'CREATE',
+    entityType: 'BatteryHealthReading',
+    entityId: healthReading.id,
+    after: healthReading
+  });
+
+  const battery = await db.battery.findUniqueOrThrow({ where: { id: batteryId } });
+
+  const maintenanceTicket = issues.length > 0 && battery.status === 'AVAILABLE'
+    ? await openMaintenanceTicket(db, battery, {
+        issue: `Flagged by health reading: ${issues.join('; ')}`,
+        notes: reading.condition
+      }, options.actor)
+    : null;
+
+  return { reading: healthReading, issues, maintenanceTicket };
+}
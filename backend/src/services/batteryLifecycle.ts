@@ -0,0 +1,104 @@
+// This file covers the end of a battery's life: disposal states, losses during a rental and straight-line depreciation
+import { Request } from 'express';
+import { Battery, Prisma, Status } from '@prisma/client';
+import { recordAudit } from './audit';
+import { settleDeposit } from './deposits';
+import { calculateRentalPrice } from './pricing';
+import { getRentalBalance } from './rentalBalance';
+import { readNumberSetting } from './settings';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// States a battery leaves the fleet through; disposed batteries no longer count as inventory
+export const DISPOSAL_STATUSES = ['RETIRED', 'LOST', 'SOLD'] as const satisfies readonly Status[];
+
+export type DisposalStatus = typeof DISPOSAL_STATUSES[number];
+
+export const isDisposalStatus = (status: unknown): status is DisposalStatus =>
+  DISPOSAL_STATUSES.includes(status as DisposalStatus);
+
+// Prisma filter for batteries still in the fleet
+export const inServiceWhere: Prisma.BatteryWhereInput = {
+  status: { notIn: [...DISPOSAL_STATUSES] }
+};
+
+export type LostRental = Prisma.RentalGetPayload<{
+  include: { payments: true; pricingPlan: true };
+}>;
+
+// Close the rental a battery was lost on. The rental ends on the loss date: a pricing plan is charged
+// up to then, late fees stop accruing, and a held deposit is forfeited towards the loss.
+export async function closeLostRental(db: Prisma.TransactionClient, rental: LostRental, lostAt: Date, actor?: Request['user']) {
+  const rentalPrice = rental.pricingPlan
+    ? calculateRentalPrice(rental.pricingPlan, rental.rentDate, lostAt, rental.chargeCount ?? 0).total
+    : Number(rental.rentalPrice);
+  const balance = getRentalBalance({ ...rental, isPaid: false, rentalPrice, returnDate: lostAt });
+  const deposit = rental.depositStatus === 'HELD' && rental.depositAmount
+    ? settleDeposit(Number(rental.depositAmount), balance.remainingBalance, 'forfeit')
+    : null;
+
+  const closedRental = await db.rental.update({
+    where: { id: rental.id },
+    data: {
+      returnDate: lostAt,
+      lostAt,
+      rentalPrice,
+      isPaid: balance.remainingBalance === 0,
+      ...(deposit && {
+        depositStatus: 'FORFEITED',
+        depositAppliedAmount: deposit.applied,
+        depositRefundedAmount: deposit.refunded,
+        depositSettledAt: lostAt
+      })
+    }
+  });
+
+  const { payments, pricingPlan, ...rentalBefore } = rental;
+  await recordAudit(db, {
+    actor,
+    action: 'UPDATE',
+    entityType: 'Rental',
+    entityId: rental.id,
+    before: rentalBefore,
+    after: closedRental
+  });
+
+  return closedRental;
+}
+
+// Depreciation rules, configured through BATTERY_USEFUL_LIFE_MONTHS and BATTERY_SALVAGE_PERCENT
+export const getDepreciationRules = () => ({
+  usefulLifeMonths: readNumberSetting('BATTERY_USEFUL_LIFE_MONTHS', 36),
+  salvagePercent: readNumberSetting('BATTERY_SALVAGE_PERCENT', 0)
+});
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Straight-line depreciation of the purchase price from the date the battery was added, down to
+// its salvage value over the useful life. Depreciation stops when the battery is disposed of,
+// after which it carries no book value.
+export function calculateDepreciation(
+  battery: Pick<Battery, 'price' | 'dateAdded' | 'status' | 'disposedAt'>,
+  asOf = new Date(),
+  rules = getDepreciationRules()
+) {
+  const cost = Number(battery.price);
+  const salvageValue = round(cost * rules.salvagePercent / 100);
+  const disposed = isDisposalStatus(battery.status) && battery.disposedAt !== null && battery.disposedAt <= asOf;
+  const end = disposed && battery.disposedAt ? battery.disposedAt : asOf;
+
+  const ageMonths = Math.max((end.getTime() - battery.dateAdded.getTime()) / DAY_MS / DAYS_PER_MONTH, 0);
+  const lifeFraction = rules.usefulLifeMonths > 0 ? Math.min(ageMonths / rules.usefulLifeMonths, 1) : 1;
+  const accumulatedDepreciation = round((cost - salvageValue) * lifeFraction);
+
+  return {
+    cost,
+    salvageValue,
+    ageMonths: Math.round(ageMonths * 10) / 10,
+    monthlyDepreciation: rules.usefulLifeMonths > 0 ? round((cost - salvageValue) / rules.usefulLifeMonths) : 0,
+    accumulatedDepreciation,
+    bookValue: disposed ? 0 : round(cost - accumulatedDepreciation),
+    fullyDepreciated: lifeFraction >= 1
+  };
+}
@@ -0,0 +1,251 @@
+// This file is the credit scoring engine: it rates customers 0-5 stars from how they pay and return
+// batteries, and explains the rating factor by factor
+import { Request } from 'express';
+import { CreditRatingSource, Customer, Payment, Prisma, PrismaClient, Rental } from '@prisma/client';
+import { recordAudit } from './audit';
+import { getDaysOverdue, getDueDate, getRentalBalance } from './rentalBalance';
+import { readNumberSetting } from './settings';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const DAYS_PER_MONTH = 365.25 / 12;
+const MAX_RATING = 5;
+
+export interface CreditScoringRules {
+  // Relative weight of paying for a rental and of returning it on time
+  paymentWeight: number;
+  timelinessWeight: number;
+  // Days overdue at which a return earns no timeliness credit; credit falls linearly until then
+  overdueDaysToZero: number;
+  // Share of payment credit given per share of the amount due that was paid, for unpaid rentals
+  partialPaymentFactor: number;
+  // A rental counts half as much as one made this many days later (0 weighs all rentals equally)
+  recencyHalfLifeDays: number;
+  // Stars added for a long-standing customer, reached after tenureMonths
+  tenureMaxBonus: number;
+  tenureMonths: number;
+}
+
+// Scoring rules, configured through the CREDIT_* settings
+export const getCreditScoringRules = (): CreditScoringRules => ({
+  paymentWeight: readNumberSetting('CREDIT_WEIGHT_PAYMENT', 2),
+  timelinessWeight: readNumberSetting('CREDIT_WEIGHT_TIMELINESS', 1),
+  overdueDaysToZero: readNumberSetting('CREDIT_OVERDUE_DAYS_TO_ZERO', 7),
+  partialPaymentFactor: readNumberSetting('CREDIT_PARTIAL_PAYMENT_FACTOR', 1),
+  recencyHalfLifeDays: readNumberSetting('CREDIT_RECENCY_HALF_LIFE_DAYS', 180),
+  tenureMaxBonus: readNumberSetting('CREDIT_TENURE_MAX_BONUS', 0.5),
+  tenureMonths: readNumberSetting('CREDIT_TENURE_MONTHS', 12)
+});
+
+type ScoredRental = Pick<Rental, 'id' | 'rentDate' | 'dueDate' | 'returnDate' | 'isPaid' | 'rentalPrice'> & {
+  payments: Pick<Payment, 'amount'>[];
+};
+
+export interface RentalScore {
+  rentalId: string;
+  rentDate: Date;
+  returned: boolean;
+  daysOverdue: number;
+  paidShare: number;
+  // 0-1 scores for each factor, and the weight the rental carries in the average
+  paymentScore: number;
+  timelinessScore: number;
+  recencyWeight: number;
+}
+
+export interface CreditScoreExplanation {
+  // Null when the customer has no rentals to score yet, in which case the rating is left alone
+  rating: number | null;
+  score: number | null;
+  factors: {
+    payment: { weight: number; average: number | null };
+    timeliness: { weight: number; average: number | null };
+    tenure: { months: number; bonus: number };
+  };
+  rentals: RentalScore[];
+  // Rentals still out and not yet due: they say nothing about the customer yet
+  pendingRentals: number;
+  rules: CreditScoringRules;
+}
+
+const round = (value: number, places = 2) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Score one rental on payment and timeliness (each 0-1)
+function scoreRental(rental: ScoredRental, asOf: Date, rules: CreditScoringRules): RentalScore {
+  const balance = getRentalBalance(rental, asOf);
+  const daysOverdue = getDaysOverdue(rental, asOf);
+  const paidShare = rental.isPaid || balance.amountDue <= 0 ? 1 : Math.min(balance.totalPaid / balance.amountDue, 1);
+  const ageDays = Math.max((asOf.getTime() - rental.rentDate.getTime()) / DAY_MS, 0);
+
+  return {
+    rentalId: rental.id,
+    rentDate: rental.rentDate,
+    returned: rental.returnDate !== null,
+    daysOverdue,
+    paidShare: round(paidShare),
+    paymentScore: round(rental.isPaid ? 1 : Math.min(paidShare * rules.partialPaymentFactor, 1)),
+    timelinessScore: round(
+      rules.overdueDaysToZero > 0 ? Math.max(1 - daysOverdue / rules.overdueDaysToZero, 0) : daysOverdue === 0 ? 1 : 0
+    ),
+    recencyWeight: round(rules.recencyHalfLifeDays > 0 ? 0.5 ** (ageDays / rules.recencyHalfLifeDays) : 1, 4)
+  };
+}
+
+// Work out a customer's rating from their rentals. Returned rentals are scored, as are rentals still out
+// past their due date; rentals still out and not yet due are left out so they do not count against anyone.
+export function explainCreditScore(
+  customer: Pick<Customer, 'createdAt'>,
+  rentals: ScoredRental[],
+  asOf = new Date(),
+  rules = getCreditScoringRules()
+): CreditScoreExplanation {
+  const scored = rentals.filter(rental => rental.returnDate !== null || getDueDate(rental) < asOf);
+  const rentalScores = scored.map(rental => scoreRental(rental, asOf, rules));
+
+  const totalWeight = rentalScores.reduce((sum, rental) => sum + rental.recencyWeight, 0);
+  const weightedAverage = (factor: (rental: RentalScore) => number) =>
+    totalWeight > 0 ? rentalScores.reduce((sum, rental) => sum + factor(rental) * rental.recencyWeight, 0) / totalWeight : null;
+
+  const payment = weightedAverage(rental => rental.paymentScore);
+  const timeliness = weightedAverage(rental => rental.timelinessScore);
+
+  const tenureMonths = Math.max((asOf.getTime() - customer.createdAt.getTime()) / DAY_MS / DAYS_PER_MONTH, 0);
+  const tenureBonus = rules.tenureMonths > 0
+    ? rules.tenureMaxBonus * Math.min(tenureMonths / rules.tenureMonths, 1)
+    : rules.tenureMaxBonus;
+
+  let score: number | null = null;
+  const factorWeight = rules.paymentWeight + rules.timelinessWeight;
+  if (payment !== null && timeliness !== null && factorWeight > 0) {
+    const base = (payment * rules.paymentWeight + timeliness * rules.timelinessWeight) / factorWeight * MAX_RATING;
+    score = Math.min(Math.max(base + tenureBonus, 0), MAX_RATING);
+  }
+
+  return {
+    rating: score !== null ? Math.round(score) : null,
+    score: score !== null ? round(score) : null,
+    factors: {
+      payment: { weight: rules.paymentWeight, average: payment !== null ? round(payment) : null },
+      timeliness: { weight: rules.timelinessWeight, average: timeliness !== null ? round(timeliness) : null },
+      tenure: { months: round(tenureMonths, 1), bonus: round(tenureBonus) }
+    },
+    rentals: rentalScores,
+    pendingRentals: rentals.length - scored.length,
+    rules
+  };
+}
+
+// Load a customer's rentals and explain their rating
+export async function getCreditScore(db: Prisma.TransactionClient, customer: Pick<Customer, 'id' | 'createdAt'>) {
+  const rentals = await db.rental.findMany({
+    where: { customerId: customer.id },
+    include: { payments: true },
+    orderBy: { rentDate: 'desc' }
+  });
+
+  return explainCreditScore(customer, rentals);
+}
+
+// Whether a manual rating is still pinned, so automatic recalculation must leave it alone
+export const isCreditRatingPinned = (customer: Pick<Customer, 'creditRatingPinnedUntil'>, asOf = new Date()) =>
+  customer.creditRatingPinnedUntil !== null && customer.creditRatingPinnedUntil > asOf;
+
+interface CreditRatingChangeInput {
+  rating: number;
+  source: CreditRatingSource;
+  reason?: string | null;
+  // Manual changes only; null clears any earlier pin
+  pinnedUntil?: Date | null;
+}
+
+// Save a new rating inside the caller's transaction, recording it in the rating history and the audit log
+export async function setCreditRating(
+  db: Prisma.TransactionClient,
+  customer: Customer,
+  change: CreditRatingChangeInput,
+  actor?: Request['user']
+) {
+  const updatedCustomer = await db.customer.update({
+    where: { id: customer.id },
+    data: {
+      creditRating: change.rating,
+      ...(change.source === 'MANUAL' && { creditRatingPinnedUntil: change.pinnedUntil ?? null })
+    }
+  });
+
+  await db.creditRatingChange.create({
+    data: {
+      customerId: customer.id,
+      previousRating: customer.creditRating,
+      newRating: change.rating,
+      source: change.source,
+      changedById: actor?.id,
+      reason: change.reason,
+      pinnedUntil: change.source === 'MANUAL' ? change.pinnedUntil ?? null : null
+    }
+  });
+
+  await recordAudit(db, {
+    actor,
+    action: 'UPDATE',
+    entityType: 'Customer',
+    entityId: customer.id,
+    before: customer,
+    after: updatedCustomer
+  });
+
+  return updatedCustomer;
+}
+
+// Recompute a customer's credit rating and save it inside the caller's transaction, recording only
+// actual changes. Customers without scorable rentals, or with a pinned manual rating, keep their
+// current rating. Returns whether it changed.
+export async function recalculateCreditRating(
+  db: Prisma.TransactionClient,
+  customerId: string,
+  actor?: Request['user']
+) {
+  const customer = await db.customer.findUnique({
+    where: { id: customerId }
+  });
+
+  if (!customer || isCreditRatingPinned(customer)) return false;
+
+  const { rating, score } = await getCreditScore(db, customer);
+  if (rating === null || customer.creditRating === rating) return false;
+
+  await setCreditRating(db, customer, {
+    rating,
+    source: 'AUTOMATIC',
+    reason: `Recalculated from rental history (score ${score})`
+  }, actor);
+
+  return true;
+}
+
+// Refresh a customer's rating after a rental or payment changes. Failures are logged rather than
+// failing the request that triggered the refresh.
+export async function updateCustomerCreditRating(prisma: PrismaClient, customerId: string, actor?: Request['user']) {
+  try {
+    await prisma.$transaction(async (prisma) => {
+      await recalculateCreditRating(prisma, customerId, actor);
+    });
+  } catch (error) {
+    console.error('Error updating customer credit rating:', error);
+  }
+}
+
+// Recompute every customer's rating, one customer per transaction, e.g. after the scoring rules change.
+// Pinned manual ratings are left alone.
+export async function recalculateAllCreditRatings(prisma: PrismaClient, actor?: Request['user']) {
+  const customers = await prisma.customer.findMany({
+    select: { id: true }
+  });
+
+  let updated = 0;
+  for (const { id } of customers) {
+    const changed = await prisma.$transaction(async (prisma) => recalculateCreditRating(prisma, id, actor));
+    if (changed) updated++;
+  }
+
+  return { processed: customers.length, updated };
+}
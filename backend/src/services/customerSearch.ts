@@ -0,0 +1,87 @@
+// This file implements the ranked, typo-tolerant customer search used by the counter type-ahead
+import { Prisma, PrismaClient } from '@prisma/client';
+import { toPhoneDigits } from './phone';
+
+export const SEARCH_MIN_LENGTH = 2;
+export const SEARCH_DEFAULT_PAGE_SIZE = 10;
+export const SEARCH_MAX_PAGE_SIZE = 50;
+
+// Lowest pg_trgm word similarity that still counts as a match; low enough to forgive a typo or two
+const WORD_SIMILARITY_THRESHOLD = 0.3;
+
+// Phone matching only kicks in once the term has this many digits
+const MIN_PHONE_DIGITS = 3;
+
+export interface CustomerSearchResult {
+  id: string;
+  name: string;
+  phoneNumber: string;
+  address: string;
+  creditRating: number;
+  score: number;
+}
+
+// Escape LIKE wildcards so they are matched literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Search customers by name, address and phone number, best match first. Names score highest
+// (prefix, then substring, then trigram similarity), addresses count for less, and phone numbers
+// are compared on digits only so "0712 345-678" and "+256712345678" both match "5678". Archived
+// customers are never returned. Returns one page of matches and the number of matches in all.
+export async function searchCustomers(
+  prisma: PrismaClient,
+  term: string,
+  page: { skip: number; take: number } = { skip: 0, take: SEARCH_DEFAULT_PAGE_SIZE }
+): Promise<{ customers: CustomerSearchResult[]; total: number }> {
+  const text = term.trim();
+  const pattern = escapeLike(text);
+  const digits = toPhoneDigits(text);
+
+  // "phoneDigits" has a trigram index, which serves these LIKE patterns once there are three digits
+  const phoneScore = digits.length >= MIN_PHONE_DIGITS
+    ? Prisma.sql`CASE
+        WHEN "phoneDigits" LIKE '%' || ${digits} THEN 1.0
+        WHEN "phoneDigits" LIKE '%' || ${digits} || '%' THEN 0.8
+        ELSE 0 END`
+    : Prisma.sql`0`;
+
+  const phoneMatch = digits.length >= MIN_PHONE_DIGITS
+    ? Prisma.sql`OR "phoneDigits" LIKE '%' || ${digits} || '%'`
+    : Prisma.empty;
+
+  const where = Prisma.sql`
+    WHERE "archivedAt" IS NULL
+      AND (
+        name ILIKE '%' || ${pattern} || '%'
+        OR ${text} <% name
+        OR address ILIKE '%' || ${pattern} || '%'
+        OR ${text} <% address
+        ${phoneMatch}
+      )`;
+
+  // The threshold is set for this transaction only, so the <% operator (and its trigram index) applies it
+  const [, customers, [{ total }]] = await prisma.$transaction([
+    prisma.$executeRaw`SELECT set_config('pg_trgm.word_similarity_threshold', ${String(WORD_SIMILARITY_THRESHOLD)}, true)`,
+    prisma.$queryRaw<CustomerSearchResult[]>`
+      SELECT id, name, "phoneNumber", address, "creditRating",
+        GREATEST(
+          CASE
+            WHEN name ILIKE ${pattern} || '%' THEN 1.0
+            WHEN name ILIKE '%' || ${pattern} || '%' THEN 0.9
+            ELSE word_similarity(${text}, name) * 0.85
+          END,
+          CASE
+            WHEN address ILIKE '%' || ${pattern} || '%' THEN 0.6
+            ELSE word_similarity(${text}, address) * 0.5
+          END,
+          ${phoneScore}
+        )::float8 AS score
+      FROM customers
+      ${where}
+      ORDER BY score DESC, name ASC
+      LIMIT ${page.take} OFFSET ${page.skip}`,
+    prisma.$queryRaw<{ total: number }[]>`SELECT COUNT(*)::int AS total FROM customers ${where}`
+  ]);
+
+  return { customers, total };
+}
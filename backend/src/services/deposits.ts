@@ -0,0 +1,40 @@
+// This file decides which rentals need a security deposit and how a held deposit is settled at return
+import { readNumberSetting } from './settings';
+
+export const DEPOSIT_ACTIONS = ['apply', 'refund', 'forfeit'] as const;
+
+export type DepositAction = typeof DEPOSIT_ACTIONS[number];
+
+export interface DepositSettlement {
+  action: DepositAction;
+  applied: number;
+  refunded: number;
+  forfeited: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Deposit rules: customers rated below the threshold pay a flat amount plus a share of the battery price
+export const getDepositRules = () => ({
+  requiredBelowRating: readNumberSetting('DEPOSIT_REQUIRED_BELOW_RATING', 3),
+  flatAmount: readNumberSetting('DEPOSIT_AMOUNT', 0),
+  percentOfBatteryPrice: readNumberSetting('DEPOSIT_PERCENT_OF_BATTERY_PRICE', 0)
+});
+
+// Minimum deposit a customer must leave before taking a battery (0 when none is needed)
+export const getRequiredDeposit = (creditRating: number, batteryPrice: number) => {
+  const rules = getDepositRules();
+  if (creditRating >= rules.requiredBelowRating) return 0;
+  return round(rules.flatAmount + batteryPrice * rules.percentOfBatteryPrice / 100);
+};
+
+// Split a held deposit at return. "apply" covers the outstanding balance first and refunds the rest,
+// "refund" hands everything back, and "forfeit" keeps the whole deposit (e.g. for damage).
+export function settleDeposit(deposit: number, outstandingBalance: number, action: DepositAction): DepositSettlement {
+  if (action === 'forfeit') {
+    return { action, applied: 0, refunded: 0, forfeited: deposit };
+  }
+
+  const applied = action === 'apply' ? round(Math.min(deposit, Math.max(outstandingBalance, 0))) : 0;
+  return { action, applied, refunded: round(deposit - applied), forfeited: 0 };
+}
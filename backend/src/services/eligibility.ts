@@ -0,0 +1,91 @@
+// This file decides whether a customer may take another battery, and explains why not
+import { Customer, Prisma } from '@prisma/client';
+import { readOptionalNumberSetting } from './settings';
+import { getRentalBalance, openBalanceWhere } from './rentalBalance';
+
+export type EligibilityRule = 'BLACKLIST' | 'MAX_ACTIVE_RENTALS' | 'MAX_OUTSTANDING_DUES' | 'MIN_CREDIT_RATING';
+
+export interface EligibilityCheck {
+  rule: EligibilityRule;
+  passed: boolean;
+  // Configured limit and the customer's actual value (null for the blacklist)
+  limit: number | null;
+  actual: number | null;
+  message: string;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  checks: EligibilityCheck[];
+}
+
+// Eligibility limits, configured through the ELIGIBILITY_* settings. An unset limit turns its rule off;
+// the blacklist always applies.
+export const getEligibilityRules = () => ({
+  maxActiveRentals: readOptionalNumberSetting('ELIGIBILITY_MAX_ACTIVE_RENTALS'),
+  maxOutstandingDues: readOptionalNumberSetting('ELIGIBILITY_MAX_OUTSTANDING_DUES'),
+  minCreditRating: readOptionalNumberSetting('ELIGIBILITY_MIN_CREDIT_RATING')
+});
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Run every eligibility rule for a new rental. All rules are evaluated so staff see every reason at once.
+export async function checkRentalEligibility(
+  db: Prisma.TransactionClient,
+  customer: Pick<Customer, 'id' | 'creditRating' | 'isBlacklisted' | 'blacklistReason'>,
+  rules = getEligibilityRules()
+): Promise<EligibilityResult> {
+  const checks: EligibilityCheck[] = [
+    {
+      rule: 'BLACKLIST',
+      passed: !customer.isBlacklisted,
+      limit: null,
+      actual: null,
+      message: customer.isBlacklisted
+        ? `Customer is blacklisted${customer.blacklistReason ? `: ${customer.blacklistReason}` : ''}`
+        : 'Customer is not blacklisted'
+    }
+  ];
+
+  const openRentals = await db.rental.findMany({
+    where: { customerId: customer.id, ...openBalanceWhere },
+    include: { payments: true }
+  });
+
+  if (rules.maxActiveRentals !== null) {
+    const activeRentals = openRentals.filter(rental => rental.returnDate === null).length;
+    checks.push({
+      rule: 'MAX_ACTIVE_RENTALS',
+      passed: activeRentals < rules.maxActiveRentals,
+      limit: rules.maxActiveRentals,
+      actual: activeRentals,
+      message: `Customer has ${activeRentals} battery(ies) out; the limit is ${rules.maxActiveRentals}`
+    });
+  }
+
+  if (rules.maxOutstandingDues !== null) {
+    const dues = round(openRentals.reduce((sum, rental) => sum + getRentalBalance(rental).remainingBalance, 0));
+    checks.push({
+      rule: 'MAX_OUTSTANDING_DUES',
+      passed: dues <= rules.maxOutstandingDues,
+      limit: rules.maxOutstandingDues,
+      actual: dues,
+      message: `Customer owes ${dues.toFixed(2)}; the limit is ${rules.maxOutstandingDues.toFixed(2)}`
+    });
+  }
+
+  if (rules.minCreditRating !== null) {
+    checks.push({
+      rule: 'MIN_CREDIT_RATING',
+      passed: customer.creditRating >= rules.minCreditRating,
+      limit: rules.minCreditRating,
+      actual: customer.creditRating,
+      message: `Customer is rated ${customer.creditRating} star(s); at least ${rules.minCreditRating} required`
+    });
+  }
+
+  return {
+    eligible: checks.every(check => check.passed),
+    checks
+  };
+}
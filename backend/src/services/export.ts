@@ -0,0 +1,90 @@
+// This file turns query results into downloadable Excel (.xlsx) and CSV files
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import * as XLSX from 'xlsx';
+
+export const EXPORT_FORMATS = ['xlsx', 'csv'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+type CellValue = string | number | boolean | Date | Prisma.Decimal | null | undefined;
+
+export interface ExportColumn<T> {
+  header: string;
+  value: (row: T) => CellValue;
+  // Amounts are written with two decimals, dates as YYYY-MM-DD
+  type?: 'amount' | 'date';
+}
+
+interface ExportOptions<T> {
+  filename: string;
+  format: ExportFormat;
+  columns: ExportColumn<T>[];
+  rows: T[];
+}
+
+const toCell = <T>(column: ExportColumn<T>, row: T) => {
+  const value = column.value(row);
+  if (value === null || value === undefined) return null;
+  if (column.type === 'amount') return Number(value);
+  if (value instanceof Prisma.Decimal) return Number(value);
+  return value;
+};
+
+// Quote fields containing separators, quotes or line breaks
+const escapeCsv = (text: string) => /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+
+const toCsvField = <T>(column: ExportColumn<T>, row: T) => {
+  const value = toCell(column, row);
+  if (value === null) return '';
+
+  if (column.type === 'amount') return (value as number).toFixed(2);
+  if (value instanceof Date) {
+    return column.type === 'date' ? value.toISOString().slice(0, 10) : value.toISOString();
+  }
+  return escapeCsv(String(value));
+};
+
+function buildCsv<T>(columns: ExportColumn<T>[], rows: T[]) {
+  const lines = [
+    columns.map(column => escapeCsv(column.header)).join(','),
+    ...rows.map(row => columns.map(column => toCsvField(column, row)).join(','))
+  ];
+  // Prefix a BOM so Excel opens the file as UTF-8 (needed for Urdu names)
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+function buildWorkbook<T>(columns: ExportColumn<T>[], rows: T[]) {
+  const sheet = XLSX.utils.aoa_to_sheet(
+    [columns.map(column => column.header), ...rows.map(row => columns.map(column => toCell(column, row)))],
+    { cellDates: true }
+  );
+
+  // Apply number formats column by column so amounts keep two decimals in Excel
+  columns.forEach((column, c) => {
+    const format = column.type === 'amount' ? '#,##0.00' : column.type === 'date' ? 'yyyy-mm-dd' : undefined;
+    if (!format) return;
+    for (let r = 1; r <= rows.length; r++) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (cell) cell.z = format;
+    }
+  });
+  sheet['!cols'] = columns.map(column => ({ wch: Math.max(column.header.length + 2, 14) }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Export');
+  return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+// Send rows as a file attachment in the requested format
+export function sendExport<T>(res: Response, { filename, format, columns, rows }: ExportOptions<T>) {
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    res.send(buildCsv(columns, rows));
+  } else {
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+    res.send(buildWorkbook(columns, rows));
+  }
+}
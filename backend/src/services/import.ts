@@ -0,0 +1,133 @@
+// This file reads uploaded CSV/Excel files and validates their rows for bulk import
+import * as XLSX from 'xlsx';
+import { normalizePhoneNumber } from './phone';
+import { positiveAmount } from '../schemas/common';
+
+export const IMPORT_MAX_ROWS = 5000;
+
+// Rows are reported by their line in the file; line 1 is the header
+const FIRST_DATA_LINE = 2;
+
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface ValidatedRows<T> {
+  valid: { row: number; value: T }[];
+  errors: ImportRowError[];
+}
+
+export interface BatteryImportRow {
+  serialNumber: string;
+  price: number;
+  dateAdded?: Date;
+}
+
+export interface CustomerImportRow {
+  name: string;
+  phoneNumber: string;
+  address: string;
+}
+
+// Match headers loosely: "Serial Number", "serial_number" and "serialNumber" are the same column
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Read the first sheet of a CSV or Excel file into rows keyed by normalized header.
+// Every cell is read as text so phone numbers keep their leading zeros.
+export function readSpreadsheet(buffer: Buffer): Record<string, string>[] {
+  const workbook = XLSX.read(buffer, { type: 'buffer', raw: true, cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, {
+    raw: false,
+    defval: '',
+    dateNF: 'yyyy-mm-dd',
+    blankrows: true
+  });
+
+  return rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([header, value]) => [normalizeHeader(header), String(value).trim()])
+  ));
+}
+
+// Run a validator over every row, collecting values and per-row errors. Blank rows are skipped.
+function validateRows<T>(
+  rows: Record<string, string>[],
+  validate: (row: Record<string, string>) => { value?: T; errors: string[] }
+): ValidatedRows<T> {
+  const result: ValidatedRows<T> = { valid: [], errors: [] };
+
+  rows.forEach((row, index) => {
+    if (Object.values(row).every(value => value === '')) return;
+
+    const line = index + FIRST_DATA_LINE;
+    const { value, errors } = validate(row);
+    if (errors.length > 0 || value === undefined) {
+      result.errors.push({ row: line, errors });
+    } else {
+      result.valid.push({ row: line, value });
+    }
+  });
+
+  return result;
+}
+
+// Flag rows whose key repeats an earlier row in the file or an existing record, moving them to errors
+export function rejectDuplicates<T>(
+  rows: ValidatedRows<T>,
+  key: (value: T) => string,
+  existing: Set<string>,
+  message: string
+) {
+  const seen = new Map<string, number>();
+
+  rows.valid = rows.valid.filter(({ row, value }) => {
+    const k = key(value);
+    if (existing.has(k)) {
+      rows.errors.push({ row, errors: [message] });
+      return false;
+    }
+    if (seen.has(k)) {
+      rows.errors.push({ row, errors: [`Duplicate of row ${seen.get(k)} in this file`] });
+      return false;
+    }
+    seen.set(k, row);
+    return true;
+  });
+
+  rows.errors.sort((a, b) => a.row - b.row);
+  return rows;
+}
+
+// Columns: Serial Number, Price, Date Added (optional)
+export function validateBatteryRows(rows: Record<string, string>[]) {
+  return validateRows<BatteryImportRow>(rows, row => {
+    const errors: string[] = [];
+    const serialNumber = row.serialnumber ?? '';
+    // Checked like a typed-in price, so "12abc" is rejected rather than read as 12
+    const price = positiveAmount.safeParse(row.price ?? '');
+    const dateAdded = row.dateadded ? new Date(row.dateadded) : undefined;
+
+    if (!serialNumber) errors.push('Serial number is required');
+    if (!price.success) errors.push('Price must be a positive number');
+    if (dateAdded && isNaN(dateAdded.getTime())) errors.push('Date added must be a valid date');
+
+    return { value: price.success && errors.length === 0 ? { serialNumber, price: price.data, dateAdded } : undefined, errors };
+  });
+}
+
+// Columns: Name, Phone Number (or Phone), Address (optional). Phone numbers are normalized to E.164.
+export function validateCustomerRows(rows: Record<string, string>[]) {
+  return validateRows<CustomerImportRow>(rows, row => {
+    const errors: string[] = [];
+    const name = row.name ?? '';
+    const { phoneNumber, error: phoneError } = normalizePhoneNumber(row.phonenumber ?? row.phone ?? '');
+
+    if (!name) errors.push('Name is required');
+    if (phoneError) errors.push(phoneError);
+
+    return { value: phoneNumber && errors.length === 0 ? { name, phoneNumber, address: row.address ?? '' } : undefined, errors };
+  });
+}
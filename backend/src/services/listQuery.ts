@@ -0,0 +1,62 @@
+// This file turns the shared paging, sorting and filter query parameters of list endpoints (see listQuery in
+// schemas/common) into Prisma arguments, and wraps each page of results in the common response envelope
+
+export const DEFAULT_PAGE_SIZE = 25;
+export const MAX_PAGE_SIZE = 100;
+
+type SortOrder = 'asc' | 'desc';
+
+export interface ListOptions<F extends string> {
+  page: number;
+  pageSize: number;
+  skip: number;
+  take: number;
+  // The chosen field, then id, so rows with equal values keep the same order from page to page
+  orderBy: [{ [field in F]?: SortOrder }, { id: SortOrder }];
+}
+
+export interface Page<T> {
+  data: T[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+// Paging and sort order from a validated ?page=, ?pageSize=, ?sortBy= and ?sortOrder=
+export const toListOptions = <F extends string>(query: {
+  page: number;
+  pageSize: number;
+  sortBy: F;
+  sortOrder: SortOrder;
+}): ListOptions<F> => {
+  const sortBy: ListOptions<F>['orderBy'][0] = {};
+  sortBy[query.sortBy] = query.sortOrder;
+  return {
+    page: query.page,
+    pageSize: query.pageSize,
+    skip: (query.page - 1) * query.pageSize,
+    take: query.pageSize,
+    orderBy: [sortBy, { id: 'asc' }]
+  };
+};
+
+// Prisma date filter from a validated ?startDate= and ?endDate=, or undefined when neither is given
+export const toDateRange = ({ startDate, endDate }: { startDate?: Date; endDate?: Date }) =>
+  startDate || endDate ? { ...(startDate && { gte: startDate }), ...(endDate && { lte: endDate }) } : undefined;
+
+export const toPage = <T>(data: T[], total: number, list: { page: number; pageSize: number }): Page<T> => ({
+  data,
+  pagination: {
+    page: list.page,
+    pageSize: list.pageSize,
+    total,
+    totalPages: Math.ceil(total / list.pageSize)
+  }
+});
+
+// Archived records are left out of lists unless ?includeArchived=true
+export const archivedWhere = (includeArchived?: boolean) =>
+  includeArchived ? {} : { archivedAt: null };
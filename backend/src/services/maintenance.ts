@@ -0,0 +1,51 @@
+// This file opens maintenance tickets, moving the battery out of stock while it is being worked on
+import { Request } from 'express';
+import { Battery, Prisma } from '@prisma/client';
+import { recordAudit } from './audit';
+
+interface NewTicket {
+  issue: string;
+  technician?: string;
+  parts?: string;
+  cost?: number;
+  notes?: string;
+}
+
+// Create a ticket for the battery, set it to MAINTENANCE and audit both changes.
+// Callers check that the battery is not rented, retired or already under maintenance.
+export async function openMaintenanceTicket(
+  db: Prisma.TransactionClient,
+  battery: Battery,
+  details: NewTicket,
+  actor?: Request['user']
+) {
+  const ticket = await db.maintenanceTicket.create({
+    data: {
+      batteryId: battery.id,
+      ...details
+    }
+  });
+
+  const batteryInMaintenance = await db.battery.update({
+    where: { id: battery.id },
+    data: { status: 'MAINTENANCE' }
+  });
+
+  await recordAudit(db, {
+    actor,
+    action: 'CREATE',
+    entityType: 'MaintenanceTicket',
+    entityId: ticket.id,
+    after: ticket
+  });
+  await recordAudit(db, {
+    actor,
+    action: 'UPDATE',
+    entityType: 'Battery',
+    entityId: battery.id,
+    before: battery,
+    after: batteryInMaintenance
+  });
+
+  return ticket;
+}
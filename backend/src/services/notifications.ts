@@ -0,0 +1,186 @@
+// This file sends SMS/WhatsApp notifications to customers and records each one in the Notification table
+import fs from 'fs';
+import twilio from 'twilio';
+import { Customer, NotificationChannel, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+export interface OutgoingMessage {
+  to: string;
+  body: string;
+  channel: NotificationChannel;
+}
+
+// A delivery backend. Implementations throw on failure and return the provider's message ID on success.
+export interface NotificationProvider {
+  readonly name: string;
+  send(message: OutgoingMessage): Promise<{ messageId?: string }>;
+}
+
+// Sends messages through Twilio's SMS and WhatsApp APIs
+export class TwilioProvider implements NotificationProvider {
+  readonly name = 'twilio';
+  private client: ReturnType<typeof twilio>;
+
+  constructor(accountSid: string, authToken: string, private smsFrom?: string, private whatsappFrom?: string) {
+    this.client = twilio(accountSid, authToken);
+  }
+
+  async send({ to, body, channel }: OutgoingMessage) {
+    const from = channel === 'WHATSAPP' ? this.whatsappFrom : this.smsFrom;
+    if (!from) {
+      throw new Error(`No Twilio sender number configured for ${channel}`);
+    }
+
+    const prefix = channel === 'WHATSAPP' ? 'whatsapp:' : '';
+    const message = await this.client.messages.create({
+      from: `${prefix}${from}`,
+      to: `${prefix}${to}`,
+      body
+    });
+
+    return { messageId: message.sid };
+  }
+}
+
+// Development and test stand-in: writes messages to a file (one JSON object per line) or the console
+export class ConsoleProvider implements NotificationProvider {
+  readonly name = 'console';
+
+  constructor(private logFile?: string) {}
+
+  async send(message: OutgoingMessage) {
+    const messageId = `console-${Date.now()}`;
+    const entry = { messageId, sentAt: new Date().toISOString(), ...message };
+
+    if (this.logFile) {
+      await fs.promises.appendFile(this.logFile, JSON.stringify(entry) + '\n');
+    } else {
+      console.log('Notification:', entry);
+    }
+
+    return { messageId };
+  }
+}
+
+let provider: NotificationProvider | null = null;
+
+// Pick the provider from the environment on first use (NOTIFICATION_PROVIDER=twilio|console)
+export const getNotificationProvider = (): NotificationProvider => {
+  if (!provider) {
+    const { NOTIFICATION_PROVIDER, TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_FROM, TWILIO_WHATSAPP_FROM } = process.env;
+
+    if (NOTIFICATION_PROVIDER === 'twilio') {
+      if (!TWILIO_ACCOUNT_SID || !TWILIO_AUTH_TOKEN) {
+        throw new Error('TWILIO_ACCOUNT_SID and TWILIO_AUTH_TOKEN are required for the twilio notification provider');
+      }
+      provider = new TwilioProvider(TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_SMS_FROM, TWILIO_WHATSAPP_FROM);
+    } else {
+      provider = new ConsoleProvider(process.env.NOTIFICATION_LOG_FILE);
+    }
+  }
+  return provider;
+};
+
+// Replace the provider, e.g. with a fake in tests
+export const setNotificationProvider = (next: NotificationProvider | null) => {
+  provider = next;
+};
+
+// Channel from NOTIFICATION_CHANNEL; SMS when it is unset or not a known channel
+export const getNotificationChannel = (): NotificationChannel => {
+  const configured = process.env.NOTIFICATION_CHANNEL;
+  if (!configured) return 'SMS';
+
+  const channel = Object.values(NotificationChannel).find(value => value === configured.toUpperCase());
+  if (!channel) {
+    console.warn(`Unknown NOTIFICATION_CHANNEL "${configured}", sending by SMS`);
+    return 'SMS';
+  }
+  return channel;
+};
+
+const formatAmount = (amount: number) => amount.toFixed(2);
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Message templates, keyed by the name stored on each Notification row
+export const templates = {
+  RENTAL_CREATED: (data: { customerName: string; serialNumber: string; rentalPrice: number; rentDate: Date }) =>
+    `Dear ${data.customerName}, you have rented battery ${data.serialNumber} on ${formatDate(data.rentDate)}. ` +
+    `Rental price: ${formatAmount(data.rentalPrice)}. Thank you for choosing ${process.env.BUSINESS_NAME || 'Battery Manager'}.`,
+
+  BATTERY_RETURNED: (data: { customerName: string; serialNumber: string; returnDate: Date; remainingBalance: number }) =>
+    `Dear ${data.customerName}, battery ${data.serialNumber} was returned on ${formatDate(data.returnDate)}. ` +
+    (data.remainingBalance > 0
+      ? `Remaining balance: ${formatAmount(data.remainingBalance)}.`
+      : 'Your rental is fully paid. Thank you!'),
+
+  PAYMENT_RECORDED: (data: { customerName: string; amount: number; paymentMethod: string; remainingBalance: number }) =>
+    `Dear ${data.customerName}, we received your payment of ${formatAmount(data.amount)} (${data.paymentMethod.replace(/_/g, ' ').toLowerCase()}). ` +
+    (data.remainingBalance > 0
+      ? `Remaining balance: ${formatAmount(data.remainingBalance)}.`
+      : 'Your rental is fully paid. Thank you!')
+};
+
+export type NotificationTemplate = keyof typeof templates;
+
+interface NotifyOptions<K extends NotificationTemplate> {
+  customer: Pick<Customer, 'id' | 'phoneNumber'>;
+  template: K;
+  data: Parameters<typeof templates[K]>[0];
+  rentalId?: string;
+  paymentId?: string;
+}
+
+// Render a template, send it to the customer and record the outcome.
+// Never throws: a failed message is stored with status FAILED so staff can see it. Routes call it
+// without awaiting so a slow provider does not hold up the response.
+export async function notifyCustomer<K extends NotificationTemplate>(options: NotifyOptions<K>) {
+  try {
+    const channel = getNotificationChannel();
+    const render = templates[options.template] as (data: NotifyOptions<K>['data']) => string;
+    const body = render(options.data);
+
+    const notification = await prisma.notification.create({
+      data: {
+        customerId: options.customer.id,
+        rentalId: options.rentalId,
+        paymentId: options.paymentId,
+        channel,
+        template: options.template,
+        recipient: options.customer.phoneNumber,
+        body,
+        status: 'PENDING'
+      }
+    });
+
+    let sender: NotificationProvider | undefined;
+    try {
+      sender = getNotificationProvider();
+      const { messageId } = await sender.send({ to: options.customer.phoneNumber, body, channel });
+
+      return await prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          status: 'SENT',
+          provider: sender.name,
+          providerMessageId: messageId,
+          sentAt: new Date()
+        }
+      });
+    } catch (error) {
+      console.error('Error sending notification:', error);
+      return await prisma.notification.update({
+        where: { id: notification.id },
+        data: {
+          status: 'FAILED',
+          provider: sender?.name,
+          error: error instanceof Error ? error.message : String(error)
+        }
+      });
+    }
+  } catch (error) {
+    console.error('Error recording notification:', error);
+  }
+}
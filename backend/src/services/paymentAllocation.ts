@@ -0,0 +1,56 @@
+// This file splits one payment across a customer's open rentals
+export interface OpenRental {
+  rentalId: string;
+  rentDate: Date;
+  // What the rental still owes, including any late fee accrued so far
+  owed: number;
+}
+
+export interface AllocationInstruction {
+  rentalId: string;
+  amount: number;
+}
+
+// An allocation carries the open rental it was made to, so callers can pass along the full record
+export interface Allocation<R extends OpenRental> {
+  rental: R;
+  rentalId: string;
+  owed: number;
+  amount: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Allocate `amount` across open rentals. Explicit instructions are honoured first (each capped
+// at what the rental owes); whatever is left goes to the remaining rentals oldest first.
+// Anything still left over is returned as `unallocated`.
+export function allocatePayment<R extends OpenRental>(amount: number, rentals: R[], instructions: AllocationInstruction[] = []) {
+  const owedByRental = new Map(rentals.map(rental => [rental.rentalId, rental.owed]));
+  const allocated = new Map<string, number>();
+  let left = round(amount);
+
+  const allocate = (rentalId: string, requested: number) => {
+    const owed = owedByRental.get(rentalId) ?? 0;
+    const already = allocated.get(rentalId) ?? 0;
+    const share = round(Math.min(requested, owed - already, left));
+    if (share > 0) {
+      allocated.set(rentalId, round(already + share));
+      left = round(left - share);
+    }
+  };
+
+  instructions.forEach(instruction => allocate(instruction.rentalId, instruction.amount));
+
+  [...rentals]
+    .sort((a, b) => a.rentDate.getTime() - b.rentDate.getTime())
+    .forEach(rental => allocate(rental.rentalId, rental.owed));
+
+  const allocations: Allocation<R>[] = [...rentals]
+    .sort((a, b) => a.rentDate.getTime() - b.rentDate.getTime())
+    .flatMap(rental => {
+      const share = allocated.get(rental.rentalId);
+      return share === undefined ? [] : [{ rental, rentalId: rental.rentalId, owed: rental.owed, amount: share }];
+    });
+
+  return { allocations, unallocated: left };
+}
@@ -0,0 +1,196 @@
+// This file generates the PDF payment receipts and rental agreements
+import { jsPDF } from 'jspdf';
+import { Prisma } from '@prisma/client';
+import { getDueDate, getLateFeeRules, getRentalBalance } from './rentalBalance';
+
+export type ReceiptPayment = Prisma.PaymentGetPayload<{
+  include: {
+    customer: true;
+    rental: { include: { battery: true; payments: true } };
+  };
+}>;
+
+export type AgreementRental = Prisma.RentalGetPayload<{
+  include: { battery: true; customer: true };
+}>;
+
+// How refund and void entries, which carry a negative amount, are labelled on their receipt
+const REVERSAL_LABELS = {
+  REFUND: { heading: 'Refund Receipt', amount: 'Amount refunded' },
+  VOID: { heading: 'Void Receipt', amount: 'Amount voided' }
+};
+
+const PAGE_MARGIN = 20;
+const LINE_HEIGHT = 8;
+
+// Terms printed on every rental agreement
+const RENTAL_TERMS = [
+  'The battery remains the property of the business at all times.',
+  'The customer is responsible for the battery while it is in their possession and must return it in the same condition, allowing for normal wear.',
+  'Loss of or damage to the battery beyond normal wear may be charged to the customer up to the purchase price of the battery.',
+  'The rental price is due in full by the time the battery is returned. Unpaid balances remain payable and affect the customer\'s credit rating.',
+  'The battery must not be opened, modified or sub-let to another person.'
+];
+
+// Late fee clause, worded from the configured rules
+const describeLateFees = () => {
+  const rules = getLateFeeRules();
+  const parts = [
+    ...(rules.feePerDay > 0 ? [formatAmount(rules.feePerDay)] : []),
+    ...(rules.percentPerDay > 0 ? [`${rules.percentPerDay}% of the rental price`] : [])
+  ];
+
+  if (parts.length === 0) {
+    return 'The battery must be returned by the return-by date shown above.';
+  }
+
+  const grace = rules.graceDays > 0 ? ` after a grace period of ${rules.graceDays} day(s)` : '';
+  const cap = rules.maxFee !== null ? `, up to a maximum of ${formatAmount(rules.maxFee)}` : '';
+  return `A late fee of ${parts.join(' plus ')} is charged for each day the battery is kept past the return-by date${grace}${cap}.`;
+};
+
+const formatAmount = (amount: number | Prisma.Decimal) => Number(amount).toFixed(2);
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatMethod = (method: string) => method.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, c => c.toUpperCase());
+
+// Small helper that keeps track of the vertical cursor while writing a document
+class DocumentWriter {
+  readonly doc = new jsPDF();
+  private y = PAGE_MARGIN;
+
+  heading(title: string) {
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(18);
+    this.doc.text(process.env.BUSINESS_NAME || 'Battery Manager', PAGE_MARGIN, this.y);
+    this.y += LINE_HEIGHT + 2;
+    this.doc.setFontSize(14);
+    this.doc.text(title, PAGE_MARGIN, this.y);
+    this.y += LINE_HEIGHT;
+    this.rule();
+  }
+
+  section(title: string) {
+    this.y += 2;
+    this.doc.setFont('helvetica', 'bold');
+    this.doc.setFontSize(12);
+    this.doc.text(title, PAGE_MARGIN, this.y);
+    this.y += LINE_HEIGHT;
+  }
+
+  row(label: string, value: string) {
+    this.doc.setFontSize(11);
+    this.doc.setFont('helvetica', 'normal');
+    this.doc.text(label, PAGE_MARGIN, this.y);
+    this.doc.text(value, PAGE_MARGIN + 60, this.y);
+    this.y += LINE_HEIGHT;
+  }
+
+  paragraph(text: string) {
+    this.doc.setFontSize(10);
+    this.doc.setFont('helvetica', 'normal');
+    const width = this.doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2;
+    const lines: string[] = this.doc.splitTextToSize(text, width);
+    this.doc.text(lines, PAGE_MARGIN, this.y);
+    this.y += lines.length * 5 + 2;
+  }
+
+  rule() {
+    const width = this.doc.internal.pageSize.getWidth();
+    this.doc.line(PAGE_MARGIN, this.y - 4, width - PAGE_MARGIN, this.y - 4);
+    this.y += 2;
+  }
+
+  signature(label: string) {
+    this.y += LINE_HEIGHT * 2;
+    this.doc.setFontSize(10);
+    this.doc.line(PAGE_MARGIN, this.y, PAGE_MARGIN + 70, this.y);
+    this.doc.text(label, PAGE_MARGIN, this.y + 5);
+    this.y += LINE_HEIGHT;
+  }
+
+  toBuffer() {
+    return Buffer.from(this.doc.output('arraybuffer'));
+  }
+}
+
+// Build a receipt for a single payment. The remaining balance is computed as of this payment,
+// so reprinting an old receipt shows the same figures the customer was originally given.
+// A refund or void prints its amount as a positive figure and names the payment it reverses.
+export function buildPaymentReceipt(payment: ReceiptPayment): Buffer {
+  const { rental, customer } = payment;
+
+  const balance = getRentalBalance({
+    ...rental,
+    // Ignore the paid flag, a later return and later payments; judge the balance at the time of this payment
+    isPaid: false,
+    returnDate: rental.returnDate && rental.returnDate <= payment.paymentDate ? rental.returnDate : null,
+    payments: rental.payments.filter(p => p.paymentDate <= payment.paymentDate)
+  }, payment.paymentDate);
+
+  const reversal = payment.type === 'PAYMENT' ? null : REVERSAL_LABELS[payment.type];
+
+  const writer = new DocumentWriter();
+  writer.heading(reversal ? reversal.heading : 'Payment Receipt');
+  writer.row('Receipt number', payment.id);
+  writer.row('Payment date', formatDate(payment.paymentDate));
+
+  writer.section('Customer');
+  writer.row('Name', customer.name);
+  writer.row('Phone', customer.phoneNumber);
+
+  writer.section('Rental');
+  writer.row('Battery serial number', rental.battery.serialNumber);
+  writer.row('Rented on', formatDate(rental.rentDate));
+  writer.row('Rental price', formatAmount(rental.rentalPrice));
+  if (balance.lateFee > 0) {
+    writer.row('Late fee', formatAmount(balance.lateFee));
+  }
+
+  writer.section('Payment');
+  if (reversal) {
+    writer.row(reversal.amount, formatAmount(Math.abs(Number(payment.amount))));
+    writer.row('Original payment', payment.reversesPaymentId ?? '-');
+    if (payment.reason) {
+      writer.row('Reason', payment.reason);
+    }
+  } else {
+    writer.row('Amount paid', formatAmount(payment.amount));
+  }
+  writer.row('Payment method', formatMethod(payment.paymentMethod));
+  writer.row('Total paid to date', formatAmount(balance.totalPaid));
+  writer.row('Remaining balance', formatAmount(balance.remainingBalance));
+
+  writer.signature(reversal ? 'Issued by' : 'Received by');
+
+  return writer.toBuffer();
+}
+
+// Build the rental agreement the customer signs when taking a battery
+export function buildRentalAgreement(rental: AgreementRental): Buffer {
+  const { battery, customer } = rental;
+
+  const writer = new DocumentWriter();
+  writer.heading('Battery Rental Agreement');
+  writer.row('Agreement number', rental.id);
+  writer.row('Date', formatDate(rental.rentDate));
+
+  writer.section('Customer');
+  writer.row('Name', customer.name);
+  writer.row('Phone', customer.phoneNumber);
+  writer.row('Address', customer.address || '-');
+
+  writer.section('Battery');
+  writer.row('Serial number', battery.serialNumber);
+  writer.row('Rental price', formatAmount(rental.rentalPrice));
+  writer.row('Return by', formatDate(getDueDate(rental)));
+
+  writer.section('Terms');
+  [...RENTAL_TERMS, describeLateFees()].forEach((term, index) => writer.paragraph(`${index + 1}. ${term}`));
+
+  writer.signature('Customer signature');
+  writer.signature('For the business');
+
+  return writer.toBuffer();
+}
@@ -0,0 +1,29 @@
+// This file normalizes customer phone numbers to E.164 so one number is always stored the same way
+import { CountryCode, isSupportedCountry, parsePhoneNumberFromString } from 'libphonenumber-js';
+
+// Country assumed for numbers written without an international prefix (DEFAULT_PHONE_COUNTRY, ISO 3166 code)
+export const getDefaultPhoneCountry = (): CountryCode => {
+  const country = (process.env.DEFAULT_PHONE_COUNTRY ?? '').toUpperCase();
+  return isSupportedCountry(country) ? country : 'PK';
+};
+
+// Digits of a phone number, stored alongside it so the customer search can match digits with an index
+export const toPhoneDigits = (phoneNumber: string) => phoneNumber.replace(/\D/g, '');
+
+// Normalize a phone number to E.164, e.g. "0300-1234567" becomes "+923001234567" in Pakistan.
+// Returns an error message for numbers that are not valid in the default country or internationally.
+export function normalizePhoneNumber(
+  value: unknown,
+  country = getDefaultPhoneCountry()
+): { phoneNumber?: string; error?: string } {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return { error: 'Phone number is required' };
+  }
+
+  const parsed = parsePhoneNumberFromString(value.trim(), country);
+  if (!parsed || !parsed.isValid()) {
+    return { error: `"${value}" is not a valid phone number` };
+  }
+
+  return { phoneNumber: parsed.format('E.164') };
+}
@@ -0,0 +1,69 @@
+// This file computes rental prices from pricing plans
+import { PricingPlan } from '@prisma/client';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface PriceBreakdown {
+  pricingPlanId: string;
+  pricingPlanName: string;
+  days: number;
+  weeks: number;
+  extraDays: number;
+  timeCharge: number;
+  chargeCount: number;
+  chargeCharge: number;
+  minimumCharge: number;
+  minimumApplied: boolean;
+  total: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Billable days between rent and return: any started day counts, with a minimum of one day
+export const getBillableDays = (rentDate: Date, returnDate: Date) => {
+  return Math.max(Math.ceil((returnDate.getTime() - rentDate.getTime()) / DAY_MS), 1);
+};
+
+// Price a rental under a plan. Full weeks are charged at the weekly rate and the remaining
+// days at the daily rate, capped at one more week so the customer never pays more than
+// the next full week would cost. Charges (recharges during the rental) are added on top,
+// and the total never drops below the plan's minimum charge.
+export function calculateRentalPrice(plan: PricingPlan, rentDate: Date, returnDate: Date, chargeCount = 0): PriceBreakdown {
+  const days = getBillableDays(rentDate, returnDate);
+  const dailyRate = plan.dailyRate !== null ? Number(plan.dailyRate) : null;
+  const weeklyRate = plan.weeklyRate !== null ? Number(plan.weeklyRate) : null;
+
+  let weeks = 0;
+  let extraDays = 0;
+  let timeCharge = 0;
+
+  if (weeklyRate !== null && dailyRate !== null) {
+    weeks = Math.floor(days / 7);
+    extraDays = days % 7;
+    timeCharge = weeks * weeklyRate + Math.min(extraDays * dailyRate, weeklyRate);
+  } else if (weeklyRate !== null) {
+    weeks = Math.ceil(days / 7);
+    timeCharge = weeks * weeklyRate;
+  } else if (dailyRate !== null) {
+    extraDays = days;
+    timeCharge = days * dailyRate;
+  }
+
+  const chargeCharge = plan.perChargeRate !== null ? chargeCount * Number(plan.perChargeRate) : 0;
+  const minimumCharge = Number(plan.minimumCharge);
+  const subtotal = timeCharge + chargeCharge;
+
+  return {
+    pricingPlanId: plan.id,
+    pricingPlanName: plan.name,
+    days,
+    weeks,
+    extraDays,
+    timeCharge: round(timeCharge),
+    chargeCount,
+    chargeCharge: round(chargeCharge),
+    minimumCharge,
+    minimumApplied: subtotal < minimumCharge,
+    total: round(Math.max(subtotal, minimumCharge))
+  };
+}
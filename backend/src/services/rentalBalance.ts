@@ -0,0 +1,86 @@
+// This file holds the rental period and late fee rules, and computes what a customer owes on a rental
+import { Payment, Prisma, Rental } from '@prisma/client';
+import { readNumberSetting, readOptionalNumberSetting } from './settings';
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+export interface LateFeeRules {
+  // Default rental period when none is given at creation
+  rentalPeriodDays: number;
+  // Days after the due date before fees start
+  graceDays: number;
+  // Flat amount charged per day overdue
+  feePerDay: number;
+  // Percentage of the rental price charged per day overdue
+  percentPerDay: number;
+  // Upper bound on the total late fee for one rental (null for no cap)
+  maxFee: number | null;
+}
+
+// Late fee rules, configured through RENTAL_PERIOD_DAYS and the LATE_FEE_* settings
+export const getLateFeeRules = (): LateFeeRules => ({
+  rentalPeriodDays: readNumberSetting('RENTAL_PERIOD_DAYS', 7),
+  graceDays: readNumberSetting('LATE_FEE_GRACE_DAYS', 0),
+  feePerDay: readNumberSetting('LATE_FEE_PER_DAY', 0),
+  percentPerDay: readNumberSetting('LATE_FEE_PERCENT_PER_DAY', 0),
+  maxFee: readOptionalNumberSetting('LATE_FEE_MAX')
+});
+
+// Due date for a rental starting at rentDate
+export const computeDueDate = (rentDate: Date, periodDays = getLateFeeRules().rentalPeriodDays) => {
+  return new Date(rentDate.getTime() + periodDays * DAY_MS);
+};
+
+type BalanceRental = Pick<Rental, 'rentDate' | 'dueDate' | 'returnDate' | 'isPaid'> & {
+  rentalPrice: Rental['rentalPrice'] | number;
+  payments: { amount: Payment['amount'] | number }[];
+};
+
+// Rentals created before due dates existed fall back to the default period
+export const getDueDate = (rental: Pick<Rental, 'rentDate' | 'dueDate'>) => {
+  return rental.dueDate ?? computeDueDate(rental.rentDate);
+};
+
+// Whole days past the due date, measured at return (or asOf while the battery is still out)
+export const getDaysOverdue = (rental: Pick<Rental, 'rentDate' | 'dueDate' | 'returnDate'>, asOf = new Date()) => {
+  const end = rental.returnDate ?? asOf;
+  return Math.max(Math.floor((end.getTime() - getDueDate(rental).getTime()) / DAY_MS), 0);
+};
+
+export const calculateLateFee = (
+  rental: Pick<Rental, 'rentDate' | 'dueDate' | 'returnDate'> & { rentalPrice: Rental['rentalPrice'] | number },
+  asOf = new Date(),
+  rules = getLateFeeRules()
+) => {
+  const chargeableDays = Math.max(getDaysOverdue(rental, asOf) - rules.graceDays, 0);
+  const perDay = rules.feePerDay + Number(rental.rentalPrice) * rules.percentPerDay / 100;
+  const fee = chargeableDays * perDay;
+  const capped = rules.maxFee !== null ? Math.min(fee, rules.maxFee) : fee;
+  return Math.round(capped * 100) / 100;
+};
+
+// Everything owed on a rental. Marking a rental as paid settles its base price,
+// so only late fees beyond what was actually paid remain outstanding.
+export const getRentalBalance = (rental: BalanceRental, asOf = new Date()) => {
+  const rentalPrice = Number(rental.rentalPrice);
+  const daysOverdue = getDaysOverdue(rental, asOf);
+  const lateFee = calculateLateFee(rental, asOf);
+  const amountDue = rentalPrice + lateFee;
+  const totalPaid = rental.payments.reduce((sum, payment) => sum + Number(payment.amount), 0);
+  const settled = rental.isPaid ? Math.max(totalPaid, rentalPrice) : totalPaid;
+  const remainingBalance = Math.max(Math.round((amountDue - settled) * 100) / 100, 0);
+
+  return {
+    dueDate: getDueDate(rental),
+    daysOverdue,
+    lateFee,
+    amountDue,
+    totalPaid,
+    remainingBalance
+  };
+};
+
+// Prisma filter for rentals that may still carry a balance: unpaid, or still out and possibly accruing late fees
+export const openBalanceWhere: Prisma.RentalWhereInput = {
+  OR: [{ isPaid: false }, { returnDate: null }]
+};
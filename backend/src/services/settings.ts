@@ -0,0 +1,14 @@
+// This file reads numeric business settings from the environment
+
+// Read a number from an environment variable, falling back when it is unset or not a number.
+// Settings are read on every call so they can be changed without code edits.
+export const readNumberSetting = (name: string, fallback: number) => {
+  const parsed = parseFloat(process.env[name] ?? '');
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+// Like readNumberSetting, but returns null when the variable is unset (e.g. for optional caps)
+export const readOptionalNumberSetting = (name: string) => {
+  const parsed = parseFloat(process.env[name] ?? '');
+  return isNaN(parsed) ? null : parsed;
+};
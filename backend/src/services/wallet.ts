@@ -0,0 +1,142 @@
+// This file manages customer wallet credit: overpayments, advance top-ups and applying credit to rentals
+import { Request } from 'express';
+import { PaymentMethod, Prisma, WalletTransactionType } from '@prisma/client';
+import { recordAudit } from './audit';
+import { getRentalBalance } from './rentalBalance';
+
+// Methods through which money actually changes hands; WALLET payments only come from wallet credit
+export const EXTERNAL_PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'MOBILE_MONEY', 'BANK_TRANSFER'];
+
+export const isExternalPaymentMethod = (method: unknown): method is PaymentMethod =>
+  EXTERNAL_PAYMENT_METHODS.includes(method as PaymentMethod);
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Whether available credit is applied to new and returned rentals without staff asking (WALLET_AUTO_APPLY)
+export const isWalletAutoApplyEnabled = () => process.env.WALLET_AUTO_APPLY !== 'false';
+
+// Current wallet balance: the sum of all ledger entries
+export async function getWalletBalance(db: Prisma.TransactionClient, customerId: string) {
+  const result = await db.walletTransaction.aggregate({
+    where: { customerId },
+    _sum: { amount: true }
+  });
+  return Number(result._sum.amount ?? 0);
+}
+
+// Lock the customer's row until the transaction ends, so wallet debits for one customer run one at a
+// time and each reads the balance left by the last
+export async function lockWallet(db: Prisma.TransactionClient, customerId: string) {
+  await db.$queryRaw`SELECT id FROM customers WHERE id = ${customerId} FOR UPDATE`;
+}
+
+interface WalletEntry {
+  customerId: string;
+  type: WalletTransactionType;
+  // Positive for credits, negative for debits
+  amount: number;
+  paymentMethod?: PaymentMethod;
+  rentalId?: string;
+  paymentId?: string;
+  branchId?: string | null;
+  note?: string;
+  actor?: Request['user'];
+}
+
+// Add a ledger entry and audit it
+export async function recordWalletTransaction(db: Prisma.TransactionClient, entry: WalletEntry) {
+  const transaction = await db.walletTransaction.create({
+    data: {
+      customerId: entry.customerId,
+      type: entry.type,
+      amount: round(entry.amount),
+      paymentMethod: entry.paymentMethod,
+      rentalId: entry.rentalId,
+      paymentId: entry.paymentId,
+      branchId: entry.branchId,
+      note: entry.note
+    }
+  });
+
+  await recordAudit(db, {
+    actor: entry.actor,
+    action: 'CREATE',
+    entityType: 'WalletTransaction',
+    entityId: transaction.id,
+    after: transaction
+  });
+
+  return transaction;
+}
+
+// Pay a rental from wallet credit: records a WALLET payment, debits the wallet and marks the
+// rental paid once settled. Applies at most `amount` (default: as much as is owed and available).
+// Returns null when there is nothing to apply. Must run inside a transaction: the balance is read
+// under the wallet lock.
+export async function applyWalletCredit(
+  db: Prisma.TransactionClient,
+  rentalId: string,
+  options: { amount?: number; actor?: Request['user'] } = {}
+) {
+  const rental = await db.rental.findUnique({
+    where: { id: rentalId },
+    include: { payments: true }
+  });
+
+  if (!rental) return null;
+
+  await lockWallet(db, rental.customerId);
+
+  const owed = getRentalBalance({ ...rental, isPaid: false }).remainingBalance;
+  const available = await getWalletBalance(db, rental.customerId);
+  const applied = round(Math.min(options.amount ?? owed, owed, available));
+
+  if (applied <= 0) return null;
+
+  const payment = await db.payment.create({
+    data: {
+      rentalId: rental.id,
+      customerId: rental.customerId,
+      branchId: rental.branchId,
+      amount: applied,
+      paymentMethod: 'WALLET'
+    }
+  });
+
+  await recordAudit(db, {
+    actor: options.actor,
+    action: 'CREATE',
+    entityType: 'Payment',
+    entityId: payment.id,
+    after: payment
+  });
+
+  await recordWalletTransaction(db, {
+    customerId: rental.customerId,
+    type: 'APPLIED',
+    amount: -applied,
+    rentalId: rental.id,
+    paymentId: payment.id,
+    branchId: rental.branchId,
+    actor: options.actor
+  });
+
+  if (!rental.isPaid && applied >= owed) {
+    const { payments, ...rentalBefore } = rental;
+    const paidRental = await db.rental.update({
+      where: { id: rental.id },
+      data: { isPaid: true }
+    });
+
+    await recordAudit(db, {
+      actor: options.actor,
+      action: 'UPDATE',
+      entityType: 'Rental',
+      entityId: rental.id,
+      before: rentalBefore,
+      after: paidRental
+    });
+  }
+
+  return { payment, applied };
+}